@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as pathUtil from 'path';
+import * as ts from 'typescript';
+import * as _ from 'lodash';
+import {TsConfigJson, TsProjectPath} from './namespace_import_service';
+
+/**
+ * Finds the directory with the lib files, like lib.dom.d.ts, of the TypeScript installed for the
+ * project, or else of the one VS Code comes with. The TypeScript bundled into the extension leaves
+ * its lib files behind.
+ */
+export async function findTypeScriptLibDirAsync(
+    tsProjectPath: TsProjectPath,
+    workspaceFolder: vscode.WorkspaceFolder,
+): Promise<string | null> {
+    const libDirUris: Array<vscode.Uri> = [];
+    for (let path = pathUtil.dirname(tsProjectPath); path.startsWith(workspaceFolder.uri.path); path = pathUtil.dirname(path)) {
+        libDirUris.push(workspaceFolder.uri.with({path: pathUtil.join(path, 'node_modules', 'typescript', 'lib')}));
+        if (path === pathUtil.dirname(path)) break;
+    }
+    // The built-in extensions share one node_modules, next to them
+    const builtinExtension = vscode.extensions.getExtension('vscode.typescript-language-features');
+    if (builtinExtension !== undefined) {
+        libDirUris.push(vscode.Uri.file(pathUtil.join(builtinExtension.extensionPath, '..', 'node_modules', 'typescript', 'lib')));
+    }
+
+    for (const libDirUri of libDirUris) {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(libDirUri, 'lib.d.ts'));
+            return libDirUri.fsPath;
+        } catch {
+            // Not installed there
+        }
+    }
+    return null;
+}
+
+/**
+ * Lists the values and namespaces that the project's `target`, `lib` and `types` declare globally,
+ * like `Math`, `document`, `process` or `describe`, by type checking an empty file against them.
+ * Without `libDirPath`, only what `types` declare is found.
+ */
+export function listAmbientGlobalNames(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    libDirPath: string | null,
+): Set<string> {
+    const tsProjectDirPath = pathUtil.dirname(tsProjectPath);
+    const {target, lib, types} = tsConfigJson;
+    const {options} = ts.convertCompilerOptionsFromJson(_.omitBy({target, lib, types}, _.isNull), tsProjectDirPath);
+    // Type packages are found in the node_modules/@types above the tsconfig, like tsc does
+    options.configFilePath = tsProjectPath;
+    options.noLib = libDirPath === null;
+    options.noEmit = true;
+
+    const emptySourceFile = ts.createSourceFile(pathUtil.join(tsProjectDirPath, '__ambient_globals__.ts'), '', ts.ScriptTarget.Latest);
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, ...args) => fileName === emptySourceFile.fileName ? emptySourceFile : getSourceFile(fileName, ...args);
+    host.getCurrentDirectory = () => tsProjectDirPath;
+    if (libDirPath !== null) {
+        host.getDefaultLibLocation = () => libDirPath;
+        host.getDefaultLibFileName = libOptions => pathUtil.join(libDirPath, ts.getDefaultLibFileName(libOptions));
+    }
+
+    const checker = ts.createProgram([emptySourceFile.fileName], options, host).getTypeChecker();
+    const symbols = checker.getSymbolsInScope(emptySourceFile, ts.SymbolFlags.Value | ts.SymbolFlags.Namespace);
+    return new Set([...symbols.map(symbol => symbol.name), ...implicitNames]);
+}
+
+// Names that no lib declares: every function has `arguments`, and every CommonJS module `require`,
+// `module` and `exports`, whether or not @types/node is installed
+const implicitNames = ['arguments', 'require', 'module', 'exports'];
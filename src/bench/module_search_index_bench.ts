@@ -0,0 +1,66 @@
+/**
+ * Measures ModuleSearchIndex on a synthetic workspace and fails if it misses the latency targets.
+ * Run with `npm run bench`.
+ */
+import * as _ from 'lodash';
+import {ModuleSearchIndex} from '../module_search_index';
+
+const moduleCount = 50_000;
+const targets = {
+    buildMs: 1000,
+    queryP95Ms: 10,
+};
+
+const words = [
+    'foo', 'bar', 'baz', 'user', 'account', 'billing', 'invoice', 'payment', 'repository', 'service',
+    'utils', 'helpers', 'client', 'server', 'button', 'modal', 'form', 'input', 'date', 'time',
+    'config', 'store', 'reducer', 'action', 'query', 'mutation', 'schema', 'types', 'api', 'router',
+];
+
+type Module = {moduleName: string; tsFilePath: string};
+
+function main(): void {
+    // A fixed seed keeps runs comparable
+    let seed = 42;
+    const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+    };
+    const pick = () => words[Math.floor(random() * words.length)];
+
+    const modules: Array<Module> = [];
+    for (let i = 0; i < moduleCount; i++) {
+        const fileName = Array.from({length: 1 + Math.floor(random() * 3)}, pick).join('_');
+        modules.push({moduleName: _.camelCase(fileName), tsFilePath: `/workspace/src/${pick()}/${pick()}/${fileName}_${i}.ts`});
+    }
+
+    const buildStart = performance.now();
+    const index = new ModuleSearchIndex<Module>();
+    for (const module of modules) {
+        index.add(module);
+    }
+    const buildMs = performance.now() - buildStart;
+
+    const queries = ['b', 'bu', 'bil', 'fBR', 'fbr', 'userAcc', 'uasr', 'inv', 'pRep', 'x', 'dateTime', 'sch'];
+    const durations: Array<number> = [];
+    for (let round = 0; round < 20; round++) {
+        for (const query of queries) {
+            const start = performance.now();
+            index.search(query, 100);
+            durations.push(performance.now() - start);
+        }
+    }
+    durations.sort((a, b) => a - b);
+    const queryP95Ms = durations[Math.floor(durations.length * 0.95)];
+
+    console.log(`modules: ${index.size}`);
+    console.log(`build: ${buildMs.toFixed(1)}ms (target ${targets.buildMs}ms)`);
+    console.log(`query p95: ${queryP95Ms.toFixed(2)}ms (target ${targets.queryP95Ms}ms)`);
+
+    if (buildMs > targets.buildMs || queryP95Ms > targets.queryP95Ms) {
+        console.error('Missed latency targets');
+        process.exitCode = 1;
+    }
+}
+
+main();
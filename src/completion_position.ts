@@ -0,0 +1,104 @@
+import * as ts from 'typescript';
+
+/**
+ * What the cursor is in the middle of, as far as completing modules goes:
+ * - 'namespace': an identifier in an expression or a type, where a namespace can be referenced
+ * - 'member': the member name after `fooBar.`, where the exports of the module fooBar can go
+ * - 'none': anywhere else, like a string, a comment, JSX text, a property key, a declaration's
+ *   name, an import specifier or a template literal with one of `suppressedTemplateTags`
+ */
+export type CompletionPosition =
+    | {type: 'namespace'}
+    | {type: 'member'; namespaceName: string}
+    | {type: 'none'};
+
+/**
+ * Classifies the position at `offset`, right after the word being typed, from the syntax tree.
+ */
+export function classifyCompletionPosition(
+    sourceFile: ts.SourceFile,
+    offset: number,
+    suppressedTemplateTags: ReadonlyArray<string>,
+): CompletionPosition {
+    const path = findTokenPath(sourceFile, offset);
+    if (path === null) return {type: 'none'};
+    const token = path[path.length - 1];
+
+    // Whatever isn't whitespace in front of a token is a comment
+    if (offset <= token.getStart(sourceFile)) return {type: 'none'};
+    if (path.some(node => isJSDocNode(node))) return {type: 'none'};
+    if (path.some(node => isSuppressedTaggedTemplate(node, suppressedTemplateTags, sourceFile) && node.template.pos < offset)) {
+        return {type: 'none'};
+    }
+
+    if (token.kind === ts.SyntaxKind.DotToken) return classifyMemberName(token.parent);
+    if (ts.isIdentifier(token)) return classifyIdentifier(token);
+    // Keywords are often the start of a longer name that's still being typed
+    if (isKeyword(token)) return {type: 'namespace'};
+    // Strings, template literal text, numbers, regular expressions, JSX text and punctuation
+    return {type: 'none'};
+}
+
+function classifyIdentifier(identifier: ts.Identifier): CompletionPosition {
+    const parent = identifier.parent;
+    if ((ts.isPropertyAccessExpression(parent) && parent.name === identifier) || (ts.isQualifiedName(parent) && parent.right === identifier)) {
+        return classifyMemberName(parent);
+    }
+    // `{fooBar}` in an object literal refers to fooBar
+    if (ts.isShorthandPropertyAssignment(parent)) return {type: 'namespace'};
+    // The names of declarations, properties, JSX attributes, import and export specifiers and labels
+    if (isNameOf(parent, identifier)) return {type: 'none'};
+    if (ts.isImportTypeNode(parent) || ts.isMetaProperty(parent)) return {type: 'none'};
+    return {type: 'namespace'};
+}
+
+/**
+ * Classifies the name after the dot of `fooBar.name` or `FooBar.Name`, which is a member of a
+ * namespace only when what's before the dot is a plain identifier, unlike in `foo.bar.name`.
+ */
+function classifyMemberName(node: ts.Node): CompletionPosition {
+    const object = ts.isPropertyAccessExpression(node) ? node.expression : ts.isQualifiedName(node) ? node.left : null;
+    if (object === null || !ts.isIdentifier(object)) return {type: 'none'};
+    return {type: 'member', namespaceName: object.text};
+}
+
+function isNameOf(parent: ts.Node, identifier: ts.Identifier): boolean {
+    const {name, propertyName, label} = parent as {name?: ts.Node; propertyName?: ts.Node; label?: ts.Node};
+    return name === identifier || propertyName === identifier || label === identifier;
+}
+
+function isSuppressedTaggedTemplate(
+    node: ts.Node,
+    suppressedTemplateTags: ReadonlyArray<string>,
+    sourceFile: ts.SourceFile,
+): node is ts.TaggedTemplateExpression {
+    if (!ts.isTaggedTemplateExpression(node)) return false;
+    // `styled.div` matches both 'styled.div' and 'div'
+    const tag = node.tag;
+    const tagNames = ts.isPropertyAccessExpression(tag) ? [tag.getText(sourceFile), tag.name.text] : [tag.getText(sourceFile)];
+    return tagNames.some(tagName => suppressedTemplateTags.includes(tagName));
+}
+
+/**
+ * Returns the nodes from the root down to the token whose text, or the trivia in front of it,
+ * `offset` is inside of or right after.
+ */
+function findTokenPath(sourceFile: ts.SourceFile, offset: number): Array<ts.Node> | null {
+    const path: Array<ts.Node> = [];
+    let node: ts.Node = sourceFile;
+    for (;;) {
+        const child = node.getChildren(sourceFile).find(child => child.getFullStart() < offset && offset <= child.getEnd());
+        if (child === undefined) break;
+        path.push(child);
+        node = child;
+    }
+    return path.length === 0 ? null : path;
+}
+
+function isJSDocNode(node: ts.Node): boolean {
+    return node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode;
+}
+
+function isKeyword(node: ts.Node): boolean {
+    return node.kind >= ts.SyntaxKind.FirstKeyword && node.kind <= ts.SyntaxKind.LastKeyword;
+}
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as pathUtil from 'path';
+import * as nodeModule from 'module';
+import * as _ from 'lodash';
+import {q, Result} from './u';
+import {readJsonObjectAsync} from './workspace_packages';
+
+/**
+ * A package the project depends on, or one of its subpath exports, or a Node built-in.
+ */
+export type DependencyModule = {
+    moduleName: string;
+    importPath: string;
+    // Identifies the module the way a file path does for workspace modules. Built-ins have none.
+    dependencyPath: string;
+};
+
+// The aliases that packages are conventionally imported under
+export const defaultDependencyAliases: Record<string, string> = {
+    lodash: '_',
+    underscore: '_',
+    jquery: '$',
+    react: 'React',
+    'react-dom': 'ReactDOM',
+    zod: 'z',
+};
+
+/**
+ * Parses the `typescriptNamespaceImports.dependencyAliases` setting, which maps import paths to
+ * the identifiers they're imported as.
+ */
+export function parseDependencyAliases(value: unknown): Result<Record<string, string>, string> {
+    if (!_.isPlainObject(value)) return Result.err('Expected an object.');
+    for (const [importPath, alias] of Object.entries(value as Record<string, unknown>)) {
+        if (typeof alias !== 'string' || !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(alias)) {
+            return Result.err(`${q(importPath)}: Expected an identifier. Got: ${JSON.stringify(alias)}.`);
+        }
+    }
+    return Result.ok(value as Record<string, string>);
+}
+
+/**
+ * Reads the dependencies that the package.json nearest to `dirPath` declares, and the subpaths
+ * their own package.json `exports` declare. Only those package.json files are read; node_modules
+ * is never crawled. Node built-ins are included when the package depends on `@types/node` or it's
+ * installed where the package can find it.
+ */
+export async function readDependencyModulesAsync(
+    dirPath: string,
+    workspaceFolder: vscode.WorkspaceFolder,
+    dependencyAliases: Record<string, string>,
+    excludedPackageNames: ReadonlySet<string>,
+): Promise<Array<DependencyModule>> {
+    const packageJsonUri = await findNearestPackageJsonAsync(dirPath, workspaceFolder);
+    if (packageJsonUri === null) return [];
+    const packageJson = await readJsonObjectAsync(packageJsonUri);
+    if (packageJson === null) return [];
+    const packageDirPath = pathUtil.dirname(packageJsonUri.path);
+
+    const dependencyNames = _.uniq(
+        ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'].flatMap(key => {
+            const dependencies = packageJson[key];
+            return _.isPlainObject(dependencies) ? Object.keys(dependencies as Record<string, unknown>) : [];
+        }),
+    );
+
+    const dependencyModules: Array<DependencyModule> = [];
+    const makeDependencyModule = (importPath: string, dependencyPath: string): DependencyModule => ({
+        moduleName: _.has(dependencyAliases, importPath) ? dependencyAliases[importPath] : makeDependencyModuleName(importPath),
+        importPath,
+        dependencyPath,
+    });
+
+    for (const dependencyName of dependencyNames) {
+        // Type declarations aren't imported themselves, and workspace packages are indexed already
+        if (dependencyName.startsWith('@types/') || excludedPackageNames.has(dependencyName)) continue;
+
+        const dependencyDirUri = await findInstalledPackageAsync(packageJsonUri, dependencyName, workspaceFolder);
+        const dependencyDirPath = dependencyDirUri?.path ?? pathUtil.join(packageDirPath, 'node_modules', dependencyName);
+        dependencyModules.push(makeDependencyModule(dependencyName, dependencyDirPath));
+
+        const dependencyPackageJson = dependencyDirUri === null
+            ? null
+            : await readJsonObjectAsync(vscode.Uri.joinPath(dependencyDirUri, 'package.json'));
+        for (const subpath of listExportedSubpaths(dependencyPackageJson?.['exports'])) {
+            dependencyModules.push(makeDependencyModule(dependencyName + subpath.slice(1), pathUtil.join(dependencyDirPath, subpath)));
+        }
+    }
+
+    // Monorepos usually declare @types/node once at their root, where every package finds it
+    const hasNodeTypes = dependencyNames.includes('@types/node')
+        || await findInstalledPackageAsync(packageJsonUri, '@types/node', workspaceFolder) !== null;
+    if (hasNodeTypes) {
+        for (const builtinModule of nodeModule.builtinModules) {
+            // Modules starting with '_' are internal
+            if (builtinModule.startsWith('_')) continue;
+            const name = builtinModule.replace(/^node:/, '');
+            dependencyModules.push(makeDependencyModule(name, `node:${name}`));
+        }
+    }
+
+    return dependencyModules;
+}
+
+/**
+ * Names a dependency by its import path without the scope, so '@tanstack/react-query' becomes
+ * `reactQuery` and 'fs/promises' becomes `fsPromises`.
+ */
+function makeDependencyModuleName(importPath: string): string {
+    return _.camelCase(importPath.replace(/^@[^/]+\//, ''));
+}
+
+/**
+ * Lists the subpaths like './server' that `exports` declares, leaving out the package itself,
+ * patterns, which would need a crawl to expand, and whatever isn't code.
+ */
+function listExportedSubpaths(exports: unknown): Array<string> {
+    if (!_.isPlainObject(exports)) return [];
+    return Object.entries(exports as Record<string, unknown>)
+        .filter(([subpath, target]) =>
+            subpath.startsWith('./')
+            && !subpath.includes('*')
+            && !subpath.endsWith('.json')
+            && !subpath.endsWith('.css')
+            && target !== null,
+        )
+        .map(([subpath]) => subpath);
+}
+
+/**
+ * Whether the package's .ts and .js files are ES modules or CommonJS ones under `module: node16`
+ * and `nodenext`, which like Node go by the `type` of the nearest package.json.
+ */
+export type PackageType = 'module' | 'commonjs';
+
+export async function readPackageTypeAsync(dirPath: string, workspaceFolder: vscode.WorkspaceFolder): Promise<PackageType> {
+    const packageJsonUri = await findNearestPackageJsonAsync(dirPath, workspaceFolder);
+    const packageJson = packageJsonUri === null ? null : await readJsonObjectAsync(packageJsonUri);
+    return packageJson?.['type'] === 'module' ? 'module' : 'commonjs';
+}
+
+async function findNearestPackageJsonAsync(dirPath: string, workspaceFolder: vscode.WorkspaceFolder): Promise<vscode.Uri | null> {
+    for (let path = dirPath; path.startsWith(workspaceFolder.uri.path); path = pathUtil.dirname(path)) {
+        const uri = workspaceFolder.uri.with({path: pathUtil.join(path, 'package.json')});
+        if (await existsAsync(uri)) return uri;
+        if (path === pathUtil.dirname(path)) break;
+    }
+    return null;
+}
+
+/**
+ * Finds where a dependency is installed the way Node does, in the node_modules of the package's
+ * directory or of one of its parents, which is where hoisting puts it.
+ */
+async function findInstalledPackageAsync(
+    packageJsonUri: vscode.Uri,
+    dependencyName: string,
+    workspaceFolder: vscode.WorkspaceFolder,
+): Promise<vscode.Uri | null> {
+    for (let path = pathUtil.dirname(packageJsonUri.path); path.startsWith(workspaceFolder.uri.path); path = pathUtil.dirname(path)) {
+        const uri = packageJsonUri.with({path: pathUtil.join(path, 'node_modules', dependencyName)});
+        if (await existsAsync(vscode.Uri.joinPath(uri, 'package.json'))) return uri;
+        if (path === pathUtil.dirname(path)) break;
+    }
+    return null;
+}
+
+async function existsAsync(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
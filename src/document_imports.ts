@@ -0,0 +1,322 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import * as _ from 'lodash';
+import * as u from './u';
+
+/**
+ * The parsed top of a document: where its header (shebang, directives, pragmas, license comments)
+ * ends, which import declarations it already has and which names it declares anywhere.
+ */
+export type DocumentImports = {
+    doc: vscode.TextDocument;
+    sourceFile: ts.SourceFile;
+    importDeclarations: Array<ImportDeclarationInfo>;
+    headerEndOffset: number;
+    boundNames: Set<string>;
+};
+
+export type ImportDeclarationInfo = {
+    // A top-level `const X = require(...)` is a CommonJS import too
+    node: ts.ImportDeclaration | ts.ImportEqualsDeclaration | ts.VariableStatement;
+    moduleSpecifier: string;
+    // The local name of `import * as X`, `import type * as X`, `import X = require(...)` or
+    // `const X = require(...)`
+    namespaceAlias: string | null;
+    // Whether it's `import type`
+    isTypeOnly: boolean;
+};
+
+export function parseDocumentImports(doc: vscode.TextDocument): DocumentImports {
+    const text = doc.getText();
+    const sourceFile = ts.createSourceFile(doc.fileName, text, ts.ScriptTarget.Latest, true);
+
+    const importDeclarations: Array<ImportDeclarationInfo> = [];
+    for (const statement of sourceFile.statements) {
+        const importDeclaration = toImportDeclarationInfo(statement);
+        if (importDeclaration !== null) {
+            importDeclarations.push(importDeclaration);
+        }
+    }
+
+    return {
+        doc,
+        sourceFile,
+        importDeclarations,
+        headerEndOffset: findHeaderEndOffset(sourceFile),
+        boundNames: collectBoundNames(sourceFile),
+    };
+}
+
+/**
+ * Returns the edit that inserts `importStatement` (which must end with a newline) at the position
+ * organize-imports would put it: bare specifiers before relative ones, then alphabetically. Files
+ * that separate their imports into blank-line groups get it in the group of the same kind (bare or
+ * relative), whatever order the groups are in.
+ */
+export function makeImportInsertEdit(
+    documentImports: DocumentImports,
+    importPath: string,
+    importStatement: string,
+): vscode.TextEdit {
+    const {doc, sourceFile, importDeclarations} = documentImports;
+
+    if (importDeclarations.length === 0) {
+        const headerEnd = doc.positionAt(documentImports.headerEndOffset);
+        const line = headerEnd.character === 0 ? headerEnd.line : headerEnd.line + 1;
+        const nextLineIsCode = line < doc.lineCount && !doc.lineAt(line).isEmptyOrWhitespace;
+        return insertAtLine(doc, line, nextLineIsCode ? importStatement + '\n' : importStatement);
+    }
+
+    const isRelative = isRelativeSpecifier(importPath);
+    const sameKindGroups = groupImportDeclarations(sourceFile, importDeclarations)
+        .map(group => group.filter(({moduleSpecifier}) => isRelativeSpecifier(moduleSpecifier) === isRelative))
+        .filter(sameKindImports => sameKindImports.length > 0);
+    // Above the comments of the import, so that e.g. an eslint-disable-next-line keeps to its line
+    const insertBefore = (importDeclaration: ImportDeclarationInfo) => insertAtLine(
+        doc,
+        doc.positionAt(findAttachedCommentsStart(sourceFile, importDeclaration.node, documentImports.headerEndOffset)).line,
+        importStatement,
+    );
+    const insertAfter = (importDeclaration: ImportDeclarationInfo) =>
+        insertAtLine(doc, doc.positionAt(importDeclaration.node.getEnd()).line + 1, importStatement);
+
+    // Without imports of the same kind, bare ones go first and relative ones last
+    if (sameKindGroups.length === 0) {
+        return isRelative ? insertAfter(importDeclarations[importDeclarations.length - 1]) : insertBefore(importDeclarations[0]);
+    }
+
+    // Of several groups of the same kind, like packages and then path aliases, take the last one
+    // that the import doesn't sort before
+    const sameKindImports = _.findLast(
+        sameKindGroups,
+        group => compareModuleSpecifiers(importPath, group[0].moduleSpecifier) >= 0,
+    ) ?? sameKindGroups[0];
+    const following = sameKindImports.find(({moduleSpecifier}) => compareModuleSpecifiers(importPath, moduleSpecifier) < 0);
+    return following !== undefined ? insertBefore(following) : insertAfter(sameKindImports[sameKindImports.length - 1]);
+}
+
+/**
+ * Returns where the comments right above `node` start, or where it starts itself without any.
+ * Comments detached from it by a blank line, trailing the line before and in the header aren't its.
+ */
+function findAttachedCommentsStart(sourceFile: ts.SourceFile, node: ts.Node, headerEndOffset: number): number {
+    const text = sourceFile.text;
+    let start = node.getStart(sourceFile);
+    const commentRanges = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+    for (const range of commentRanges.reverse()) {
+        const isOwnLine = node.getFullStart() === 0 || text.slice(node.getFullStart(), range.pos).includes('\n');
+        if (!isOwnLine || range.pos < headerEndOffset || isFollowedByBlankLine(text, range.end)) break;
+        start = range.pos;
+    }
+    return start;
+}
+
+/**
+ * Splits the import declarations into the groups that blank lines separate them into.
+ */
+function groupImportDeclarations(
+    sourceFile: ts.SourceFile,
+    importDeclarations: ReadonlyArray<ImportDeclarationInfo>,
+): Array<Array<ImportDeclarationInfo>> {
+    const groups: Array<Array<ImportDeclarationInfo>> = [];
+    let previous: ImportDeclarationInfo | null = null;
+    for (const importDeclaration of importDeclarations) {
+        const gap = previous === null ? '' : sourceFile.text.slice(previous.node.getEnd(), importDeclaration.node.getStart(sourceFile));
+        if (previous === null || /\n[ \t]*\r?\n/.test(gap)) {
+            groups.push([]);
+        }
+        groups[groups.length - 1].push(importDeclaration);
+        previous = importDeclaration;
+    }
+    return groups;
+}
+
+/**
+ * Returns the edit that turns `import type` into a plain import, so that its bindings can be used
+ * as values too.
+ */
+export function makeValueImportEdit(
+    documentImports: DocumentImports,
+    importDeclaration: ImportDeclarationInfo,
+): vscode.TextEdit | null {
+    const {doc, sourceFile} = documentImports;
+    if (!importDeclaration.isTypeOnly) return null;
+
+    const afterImportKeyword = importDeclaration.node.getStart(sourceFile) + 'import'.length;
+    const typeKeyword = /^(\s+)type\s+/.exec(sourceFile.text.slice(afterImportKeyword));
+    if (typeKeyword === null) return null;
+    // Removes `type` and the whitespace after it, keeping what's between `import` and `type`
+    const range = new vscode.Range(
+        doc.positionAt(afterImportKeyword + typeKeyword[1].length),
+        doc.positionAt(afterImportKeyword + typeKeyword[0].length),
+    );
+    return vscode.TextEdit.delete(range);
+}
+
+/**
+ * Orders module specifiers the way TypeScript's organize-imports does: bare before relative,
+ * then case-insensitively, then ordinally.
+ */
+export function compareModuleSpecifiers(a: string, b: string): number {
+    const relativeCmp = u.cmp.number(isRelativeSpecifier(a) ? 1 : 0, isRelativeSpecifier(b) ? 1 : 0);
+    if (relativeCmp !== 0) return relativeCmp;
+
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    if (lowerA !== lowerB) return lowerA < lowerB ? -1 : 1;
+    if (a !== b) return a < b ? -1 : 1;
+    return 0;
+}
+
+export function isRelativeSpecifier(specifier: string): boolean {
+    return specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..';
+}
+
+/**
+ * Makes a type checker that sees nothing but `sourceFile`, which is enough to bind its names.
+ */
+export function makeSingleFileChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+    const options: ts.CompilerOptions = {noLib: true, noResolve: true, allowJs: true, jsx: ts.JsxEmit.Preserve};
+    const host = ts.createCompilerHost(options);
+    host.getSourceFile = fileName => fileName === sourceFile.fileName ? sourceFile : undefined;
+    host.fileExists = fileName => fileName === sourceFile.fileName;
+    host.readFile = fileName => fileName === sourceFile.fileName ? sourceFile.text : undefined;
+    return ts.createProgram([sourceFile.fileName], options, host).getTypeChecker();
+}
+
+function toImportDeclarationInfo(statement: ts.Statement): ImportDeclarationInfo | null {
+    if (ts.isImportDeclaration(statement)) {
+        if (!ts.isStringLiteral(statement.moduleSpecifier)) return null;
+        const namedBindings = statement.importClause?.namedBindings;
+        return {
+            node: statement,
+            moduleSpecifier: statement.moduleSpecifier.text,
+            namespaceAlias: namedBindings !== undefined && ts.isNamespaceImport(namedBindings)
+                ? namedBindings.name.text
+                : null,
+            isTypeOnly: statement.importClause?.isTypeOnly ?? false,
+        };
+    }
+    if (ts.isImportEqualsDeclaration(statement)) {
+        const moduleReference = statement.moduleReference;
+        if (!ts.isExternalModuleReference(moduleReference) || !ts.isStringLiteral(moduleReference.expression)) {
+            return null;
+        }
+        return {
+            node: statement,
+            moduleSpecifier: moduleReference.expression.text,
+            namespaceAlias: statement.name.text,
+            isTypeOnly: statement.isTypeOnly,
+        };
+    }
+    if (ts.isVariableStatement(statement)) {
+        const declarations = statement.declarationList.declarations;
+        if (declarations.length !== 1) return null;
+        const {name, initializer} = declarations[0];
+        if (!ts.isIdentifier(name) || initializer === undefined || !isRequireCall(initializer)) return null;
+        return {
+            node: statement,
+            moduleSpecifier: initializer.arguments[0].text,
+            namespaceAlias: name.text,
+            isTypeOnly: false,
+        };
+    }
+    return null;
+}
+
+function isRequireCall(expression: ts.Expression): expression is ts.CallExpression & {arguments: [ts.StringLiteral]} {
+    return ts.isCallExpression(expression)
+        && ts.isIdentifier(expression.expression)
+        && expression.expression.text === 'require'
+        && expression.arguments.length === 1
+        && ts.isStringLiteral(expression.arguments[0]);
+}
+
+/**
+ * Collects every name declared in the file, in any scope. A namespace import with one of these
+ * names would either clash with a top-level declaration or be shadowed somewhere in the file.
+ */
+function collectBoundNames(sourceFile: ts.SourceFile): Set<string> {
+    const boundNames = new Set<string>();
+    visit(sourceFile);
+    return boundNames;
+
+    function visit(node: ts.Node): void {
+        if (
+            ts.isVariableDeclaration(node)
+            || ts.isParameter(node)
+            || ts.isBindingElement(node)
+            || ts.isFunctionDeclaration(node)
+            || ts.isClassDeclaration(node)
+            || ts.isEnumDeclaration(node)
+            || ts.isInterfaceDeclaration(node)
+            || ts.isTypeAliasDeclaration(node)
+            || ts.isModuleDeclaration(node)
+            || ts.isImportClause(node)
+            || ts.isNamespaceImport(node)
+            || ts.isImportSpecifier(node)
+            || ts.isImportEqualsDeclaration(node)
+        ) {
+            const name = node.name;
+            if (name !== undefined && ts.isIdentifier(name)) {
+                boundNames.add(name.text);
+            }
+        }
+        ts.forEachChild(node, visit);
+    }
+}
+
+function insertAtLine(doc: vscode.TextDocument, line: number, text: string): vscode.TextEdit {
+    if (line >= doc.lineCount) {
+        // The document doesn't end with a newline, so the last line needs to be terminated first
+        const end = doc.lineAt(doc.lineCount - 1).range.end;
+        return vscode.TextEdit.insert(end, end.character === 0 ? text : '\n' + text);
+    }
+    return vscode.TextEdit.insert(new vscode.Position(line, 0), text);
+}
+
+/**
+ * Returns the offset of the first line that an import may be inserted at without displacing the
+ * shebang, the directive prologue ('use client', 'use strict') or the file's header comments.
+ */
+function findHeaderEndOffset(sourceFile: ts.SourceFile): number {
+    const text = sourceFile.text;
+    let offset = 0;
+
+    const shebang = ts.getShebang(text);
+    if (shebang !== undefined) {
+        offset = shebang.length;
+    }
+
+    for (const statement of sourceFile.statements) {
+        if (!isDirective(statement)) break;
+        offset = statement.getEnd();
+    }
+
+    // Header comments are the ones detached from the first statement by a blank line, as well as
+    // pragmas and triple-slash directives, which must stay above all imports.
+    const commentRanges = ts.getLeadingCommentRanges(text, offset) ?? [];
+    const firstStatement = sourceFile.statements.find(statement => statement.getEnd() > offset);
+    for (const range of commentRanges) {
+        const comment = text.slice(range.pos, range.end);
+        const isPragma = comment.startsWith('///') || /^\/\/\s*@/.test(comment) || comment.startsWith('/*!');
+        if (firstStatement === undefined || isPragma || isFollowedByBlankLine(text, range.end)) {
+            offset = range.end;
+        }
+    }
+
+    return offset === 0 ? 0 : endOfLine(text, offset);
+}
+
+function isDirective(statement: ts.Statement): boolean {
+    return ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression);
+}
+
+function isFollowedByBlankLine(text: string, offset: number): boolean {
+    return /^[^\S\n]*\r?\n[^\S\n]*\r?\n/.test(text.slice(offset));
+}
+
+function endOfLine(text: string, offset: number): number {
+    const newline = text.indexOf('\n', offset);
+    return newline === -1 ? text.length : newline + 1;
+}
@@ -1,10 +1,23 @@
+import * as completionPositions from './completion_position';
+import * as dependencyModules from './dependency_modules';
+import * as documentImports from './document_imports';
+import * as importStatements from './import_statements';
+import * as missingImports from './missing_imports';
+import * as moduleExports from './module_exports';
+import * as moduleRanking from './module_ranking';
+import * as namespaceConversion from './namespace_conversion';
+import * as namespaceRename from './namespace_rename';
 import * as uriHelpers from './uri_helpers';
 import * as u from './u';
 import * as vscode from 'vscode';
-import {CompletionItemsService} from './namespace_import_service';
+import {CompletionItemsService, IndexConfig, ModuleForCompletion, TsFilePath} from './namespace_import_service';
+import {IndexStore} from './index_store';
+import {NamingConfig} from './module_naming';
+import {UsageHistory} from './usage_history';
 
-type ExtensionSettings = {
-    quoteStyle: 'single' | 'double';
+type ExtensionSettings = importStatements.ImportStatementSettings & {
+    renameNamespacesOnFileRename: boolean;
+    suppressedTemplateTags: Array<string>;
 };
 
 // this method is called when your extension is activated
@@ -16,34 +29,127 @@ export function activate(context: vscode.ExtensionContext) {
         return;
     }
 
-    // Cache the quote style and update it when configuration changes
+    // Cache the extension settings and update them when configuration changes
     let extensionSettings = fetchExtensionSettings();
     function fetchExtensionSettings(): ExtensionSettings {
         const config = vscode.workspace.getConfiguration('typescriptNamespaceImports');
-        const value: string = config.get<ExtensionSettings['quoteStyle']>('quoteStyle', 'single');
-        const result = u.parse.string.to.literalUnion(['single', 'double'])(value);
-        if (!result.ok) {
-            console.warn(`Failed to parse settings: "quoteStyle": ${result.err}`);
-            return {
-                quoteStyle: 'single',
-            };
-        }
-        const quoteStyle = result.value;
-        return {quoteStyle};
+        const renameNamespacesOnFileRename = config.get<boolean>('renameNamespacesOnFileRename', false);
+        const suppressedTemplateTags = config.get<Array<string>>('suppressedTemplateTags', ['gql', 'graphql', 'sql', 'css']);
+
+        const quoteStyleValue: string = config.get<string>('quoteStyle', 'auto');
+        const quoteStyleResult = u.parse.string.to.literalUnion(['auto', 'single', 'double'])(quoteStyleValue);
+        if (!quoteStyleResult.ok) {
+            console.warn(`Failed to parse settings: "quoteStyle": ${quoteStyleResult.err}`);
+        }
+
+        const importStatementStyleValue: string = config.get<string>('importStatementStyle', 'auto');
+        const importStatementStyleResult = u.parse.string.to.literalUnion(
+            ['auto', 'import', 'import-equals', 'require'],
+        )(importStatementStyleValue);
+        if (!importStatementStyleResult.ok) {
+            console.warn(`Failed to parse settings: "importStatementStyle": ${importStatementStyleResult.err}`);
+        }
+
+        return {
+            quoteStyle: quoteStyleResult.ok ? quoteStyleResult.value : 'auto',
+            importStatementStyle: importStatementStyleResult.ok ? importStatementStyleResult.value : 'auto',
+            renameNamespacesOnFileRename,
+            suppressedTemplateTags,
+        };
+    }
+
+    // The index config decides what is stored in the cache, so changing it rebuilds the cache
+    function fetchIndexConfig(): IndexConfig {
+        const config = vscode.workspace.getConfiguration('typescriptNamespaceImports');
+
+        const namingResult = NamingConfig.parse(config.get<unknown>('naming', {}));
+        if (!namingResult.ok) {
+            console.warn(`Failed to parse settings: "naming": ${namingResult.err}`);
+        }
+
+        const importPathExtensionValue: string = config.get<string>('importPathExtension', 'auto');
+        const importPathExtensionResult = u.parse.string.to.literalUnion(['auto', 'none', 'js', 'ts'])(importPathExtensionValue);
+        if (!importPathExtensionResult.ok) {
+            console.warn(`Failed to parse settings: "importPathExtension": ${importPathExtensionResult.err}`);
+        }
+
+        const importModuleSpecifierPreferenceValue: string = config.get<string>('importModuleSpecifierPreference', 'non-relative');
+        const importModuleSpecifierPreferenceResult = u.parse.string.to.literalUnion(
+            ['relative', 'non-relative', 'project-relative', 'shortest'],
+        )(importModuleSpecifierPreferenceValue);
+        if (!importModuleSpecifierPreferenceResult.ok) {
+            console.warn(`Failed to parse settings: "importModuleSpecifierPreference": ${importModuleSpecifierPreferenceResult.err}`);
+        }
+
+        const dependencyAliasesResult = dependencyModules.parseDependencyAliases(config.get<unknown>('dependencyAliases', {}));
+        if (!dependencyAliasesResult.ok) {
+            console.warn(`Failed to parse settings: "dependencyAliases": ${dependencyAliasesResult.err}`);
+        }
+
+        return {
+            namingConfig: namingResult.ok ? namingResult.value : NamingConfig.default(),
+            indexFileNames: config.get<Array<string>>('indexFileNames', ['index.ts', 'index.tsx', 'index.js', 'index.jsx']),
+            hideBarrelInternals: config.get<boolean>('hideBarrelInternals', false),
+            tsConfigFileNames: config.get<Array<string>>('tsConfigFileNames', ['tsconfig.json', 'tsconfig.*.json', 'jsconfig.json']),
+            importPathExtension: importPathExtensionResult.ok ? importPathExtensionResult.value : 'auto',
+            importModuleSpecifierPreference: importModuleSpecifierPreferenceResult.ok
+                ? importModuleSpecifierPreferenceResult.value
+                : 'non-relative',
+            dependencyAliases: {
+                ...dependencyModules.defaultDependencyAliases,
+                ...dependencyAliasesResult.ok ? dependencyAliasesResult.value : {},
+            },
+        };
     }
 
-    const service = CompletionItemsService.make(workspaceFolders);
+    const indexStore = IndexStore.make(context.storageUri ?? context.globalStorageUri);
+    const service = CompletionItemsService.make(workspaceFolders, fetchIndexConfig(), indexStore);
+    const usageHistory = UsageHistory.make(context.workspaceState);
+
+    // Run when a completion is accepted, so the modules the user picks get ranked higher next time
+    const recordUsageCommand = vscode.commands.registerCommand(
+        recordModuleUsageCommandId,
+        (tsFilePath: TsFilePath) => usageHistory.recordAsync(tsFilePath),
+    );
 
     // Listen for configuration changes
     const configWatcher = vscode.workspace.onDidChangeConfiguration(event => {
-        if (event.affectsConfiguration('typescriptNamespaceImports.quoteStyle')) {
+        if (
+            event.affectsConfiguration('typescriptNamespaceImports.quoteStyle')
+            || event.affectsConfiguration('typescriptNamespaceImports.importStatementStyle')
+            || event.affectsConfiguration('typescriptNamespaceImports.renameNamespacesOnFileRename')
+            || event.affectsConfiguration('typescriptNamespaceImports.suppressedTemplateTags')
+        ) {
             extensionSettings = fetchExtensionSettings();
         }
+        if (
+            event.affectsConfiguration('typescriptNamespaceImports.naming')
+            || event.affectsConfiguration('typescriptNamespaceImports.indexFileNames')
+            || event.affectsConfiguration('typescriptNamespaceImports.hideBarrelInternals')
+            || event.affectsConfiguration('typescriptNamespaceImports.tsConfigFileNames')
+            || event.affectsConfiguration('typescriptNamespaceImports.importPathExtension')
+            || event.affectsConfiguration('typescriptNamespaceImports.importModuleSpecifierPreference')
+            || event.affectsConfiguration('typescriptNamespaceImports.dependencyAliases')
+        ) {
+            service.handleIndexConfigChangedAsync(fetchIndexConfig());
+        }
     });
 
     // Whenever there is a change to the workspace folders refresh the cache
     const workspaceWatcher = vscode.workspace.onDidChangeWorkspaceFolders(service.handleWorkspaceChangedAsync);
 
+    // Renames made in VS Code are handled as moves, rather than as unrelated deletions and creations
+    const renameWatcher = vscode.workspace.onDidRenameFiles(event => {
+        service.handleFilesRenamedAsync(event.files);
+    });
+
+    // Proposes renaming the namespace imports of renamed modules, which is shown for review first
+    const willRenameWatcher = vscode.workspace.onWillRenameFiles(event => {
+        if (extensionSettings.renameNamespacesOnFileRename) {
+            event.waitUntil(makeNamespaceRenameEditAsync(event.files));
+        }
+    });
+
     // Whenever a file is added or removed refresh the cache
     const fileSystemWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, false, false);
     fileSystemWatcher.onDidCreate((...args) => {
@@ -56,72 +162,583 @@ export function activate(context: vscode.ExtensionContext) {
         service.handleFileChangedAsync(...args);
     });
 
+    function makeImportStatementFormat(imports: documentImports.DocumentImports): importStatements.ImportStatementFormat {
+        return importStatements.inferImportStatementFormat(imports, extensionSettings, service.isCommonJsModule(imports.doc.uri));
+    }
+
+    /**
+     * Returns whether modules that export nothing but types are imported with `import type` in
+     * `doc`, which JavaScript files can't.
+     */
+    function prefersTypeOnlyImports(doc: vscode.TextDocument): boolean {
+        return !doc.languageId.startsWith('javascript') && service.needsTypeOnlyImports(doc.uri);
+    }
+
+    function readModuleExportsAsync(doc: vscode.TextDocument, tsFilePath: TsFilePath): Promise<Array<moduleExports.ModuleExport>> {
+        return moduleExports.readModuleExportsAsync(
+            doc.uri.with({path: tsFilePath}),
+            (fromTsFilePath, exportPath) => service.resolveImportPath(doc.uri.with({path: fromTsFilePath}), exportPath),
+        );
+    }
+
+    /**
+     * Returns the statement importing `module` into `doc` as `alias`, which is type-only when the
+     * module exports nothing but types and the project needs that said.
+     */
+    async function makeModuleImportStatementAsync(
+        doc: vscode.TextDocument,
+        format: importStatements.ImportStatementFormat,
+        alias: string,
+        {importPath, tsFilePath, isDependency}: ModuleForCompletion,
+    ): Promise<string> {
+        // The exports of dependencies are in declaration files this doesn't read
+        const isTypeOnly = prefersTypeOnlyImports(doc) && !isDependency
+            && moduleExports.isTypeOnlyModule(await readModuleExportsAsync(doc, tsFilePath));
+        return importStatements.makeImportStatement(format, alias, importPath, isTypeOnly);
+    }
+
+    function makeRecordUsageCommand(tsFilePath: TsFilePath): vscode.Command {
+        return {title: 'Record module usage', command: recordModuleUsageCommandId, arguments: [tsFilePath]};
+    }
+
+    /**
+     * Offers the exports of the not yet imported modules named `namespaceName`, adding the
+     * namespace import when one is accepted.
+     */
+    async function provideMemberCompletionItemsAsync(
+        doc: vscode.TextDocument,
+        imports: documentImports.DocumentImports,
+        namespaceName: string,
+    ): Promise<vscode.CompletionList> {
+        // Anything the file already declares or imports is for the TypeScript server to complete
+        if (imports.boundNames.has(namespaceName)) return new vscode.CompletionList([], false);
+
+        const importedTsFilePaths = new Set<TsFilePath>();
+        for (const importDeclaration of imports.importDeclarations) {
+            const tsFilePath = service.resolveImportPath(doc.uri, importDeclaration.moduleSpecifier);
+            if (tsFilePath !== null) {
+                importedTsFilePaths.add(tsFilePath);
+            }
+        }
+
+        const completionItems: Array<vscode.CompletionItem> = [];
+        for (const {importPath, tsFilePath, isDependency} of service.getModulesNamed(doc.uri, namespaceName)) {
+            // The exports of dependencies are in declaration files this doesn't read
+            if (isDependency || importedTsFilePaths.has(tsFilePath)) continue;
+
+            const exports = await readModuleExportsAsync(doc, tsFilePath);
+            const isTypeOnly = prefersTypeOnlyImports(doc) && moduleExports.isTypeOnlyModule(exports);
+            const importStatement = importStatements.makeImportStatement(makeImportStatementFormat(imports), namespaceName, importPath, isTypeOnly);
+            const importEdit = documentImports.makeImportInsertEdit(imports, importPath, importStatement);
+            for (const moduleExport of exports) {
+                completionItems.push(uriHelpers.makeMemberCompletionItem({
+                    moduleExport,
+                    importPath,
+                    importEdit,
+                    command: makeRecordUsageCommand(tsFilePath),
+                }));
+            }
+        }
+        return new vscode.CompletionList(completionItems, false);
+    }
+
+    /**
+     * Renames the namespace imports of the modules being renamed, and their usages, wherever the
+     * old namespace name is the one the naming rules gave the module. Names picked by hand stay.
+     */
+    async function makeNamespaceRenameEditAsync(
+        files: ReadonlyArray<{oldUri: vscode.Uri; newUri: vscode.Uri}>,
+    ): Promise<vscode.WorkspaceEdit> {
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const {oldUri, newUri} of files) {
+            // A directory renames every module inside of it
+            for (const oldTsFilePath of service.getIndexedTsFilePaths(oldUri)) {
+                const newTsFilePath = newUri.path + oldTsFilePath.slice(oldUri.path.length);
+                const oldModuleName = service.getModuleNameOfFile(oldUri.with({path: oldTsFilePath}));
+                const newModuleName = service.getModuleNameOfFile(newUri.with({path: newTsFilePath}));
+                if (oldModuleName === null || newModuleName === null || oldModuleName === newModuleName) continue;
+
+                for (const importingTsFilePath of service.getImportingTsFilePaths(oldUri.with({path: oldTsFilePath}))) {
+                    const doc = await vscode.workspace.openTextDocument(oldUri.with({path: importingTsFilePath}));
+                    const imports = documentImports.parseDocumentImports(doc);
+                    for (const importDeclaration of imports.importDeclarations) {
+                        if (importDeclaration.namespaceAlias !== oldModuleName) continue;
+                        if (service.resolveImportPath(doc.uri, importDeclaration.moduleSpecifier) !== oldTsFilePath) continue;
+
+                        const usedNames = namespaceRename.collectIdentifierNames(imports);
+                        const newName = uriHelpers.makeCollisionFreeModuleName(newModuleName, newTsFilePath, usedNames);
+                        const metadata: vscode.WorkspaceEditEntryMetadata = {
+                            label: `Rename ${oldModuleName} to ${newName}`,
+                            needsConfirmation: true,
+                        };
+                        for (const edit of namespaceRename.makeNamespaceRenameEdits(imports, importDeclaration, newName)) {
+                            workspaceEdit.replace(doc.uri, edit.range, edit.newText, metadata);
+                        }
+                    }
+                }
+            }
+        }
+        return workspaceEdit;
+    }
+
+    /**
+     * Finds the imports of indexed modules that can be converted into namespace imports, either
+     * the ones overlapping `range` or, without one, all of them.
+     */
+    function findConvertibleImports(
+        doc: vscode.TextDocument,
+        imports: documentImports.DocumentImports,
+        range: vscode.Range | null,
+    ): Array<namespaceConversion.ConvertibleImport> {
+        return namespaceConversion.findConvertibleImports(imports).filter(({node, moduleSpecifier, importedNameByBinding}) => {
+            if (service.resolveImportPath(doc.uri, moduleSpecifier) === null) return false;
+            // The default import of a package is often its `export =` value, which has no `.default`
+            const hasDefaultBinding = Array.from(importedNameByBinding.values()).includes('default');
+            if (hasDefaultBinding && service.isDependencyImport(doc.uri, moduleSpecifier)) return false;
+            if (range === null) return true;
+            const nodeRange = new vscode.Range(doc.positionAt(node.getStart(imports.sourceFile)), doc.positionAt(node.getEnd()));
+            return nodeRange.intersection(range) !== undefined;
+        });
+    }
+
+    async function convertToNamespaceImportsAsync(doc: vscode.TextDocument, range: vscode.Range | null): Promise<void> {
+        const imports = documentImports.parseDocumentImports(doc);
+        const convertibleImports = findConvertibleImports(doc, imports, range);
+        if (convertibleImports.length === 0) {
+            vscode.window.showInformationMessage('No imports of workspace modules to convert to namespace imports.');
+            return;
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        // Each new namespace name has to stay clear of the ones before it too
+        const boundNames = new Set(imports.boundNames);
+        const failures: Array<string> = [];
+        for (const convertibleImport of convertibleImports) {
+            const {moduleSpecifier} = convertibleImport;
+            const tsFilePath = service.resolveImportPath(doc.uri, moduleSpecifier);
+            const moduleName = service.getModuleName(doc.uri, moduleSpecifier);
+            if (tsFilePath === null || moduleName === null) continue;
+
+            // The import's own bindings go away with it, so they're free to reuse
+            const ownNames = Array.from(convertibleImport.importedNameByBinding.keys(), binding => binding.text);
+            const otherBoundNames = new Set(boundNames);
+            ownNames.forEach(name => otherBoundNames.delete(name));
+            const namespaceName = uriHelpers.makeCollisionFreeModuleName(moduleName, tsFilePath, otherBoundNames);
+            const result = namespaceConversion.makeNamespaceConversionEdits(imports, convertibleImport, namespaceName);
+            if (!result.ok) {
+                failures.push(`${u.q(moduleSpecifier)}: ${result.err}`);
+                continue;
+            }
+            ownNames.forEach(name => boundNames.delete(name));
+            boundNames.add(namespaceName);
+            workspaceEdit.set(doc.uri, [...workspaceEdit.get(doc.uri), ...result.value]);
+        }
+
+        await vscode.workspace.applyEdit(workspaceEdit);
+        if (failures.length > 0) {
+            vscode.window.showWarningMessage(`Some imports were left as they are. ${failures.join('; ')}`);
+        }
+    }
+
+    // Converts the imports in the given range, or else in the selection, or else in the whole file
+    const convertCommand = vscode.commands.registerCommand(
+        convertToNamespaceImportsCommandId,
+        async (uri?: vscode.Uri, range?: vscode.Range) => {
+            if (uri !== undefined && range !== undefined) {
+                await convertToNamespaceImportsAsync(await vscode.workspace.openTextDocument(uri), range);
+                return;
+            }
+            const editor = vscode.window.activeTextEditor;
+            if (editor === undefined) return;
+            await convertToNamespaceImportsAsync(editor.document, editor.selection.isEmpty ? null : editor.selection);
+        },
+    );
+
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+        documentSelector,
+        {
+            provideCodeActions(doc: vscode.TextDocument, range: vscode.Range) {
+                const imports = documentImports.parseDocumentImports(doc);
+                const convertibleImports = findConvertibleImports(doc, imports, range);
+                if (convertibleImports.length === 0) return [];
+
+                const title = convertibleImports.length === 1 ? 'Convert to namespace import' : 'Convert to namespace imports';
+                const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorRewrite);
+                // The rewrite needs a type checker, so it's only computed once the action is picked
+                action.command = {title, command: convertToNamespaceImportsCommandId, arguments: [doc.uri, range]};
+                return [action];
+            },
+        },
+        {providedCodeActionKinds: [vscode.CodeActionKind.RefactorRewrite]},
+    );
+
+    /**
+     * Returns the edits adding an import for every name reported missing in `diagnostics` that
+     * exactly one indexed module goes by.
+     */
+    async function makeAddAllMissingImportsEditsAsync(
+        doc: vscode.TextDocument,
+        imports: documentImports.DocumentImports,
+        diagnostics: ReadonlyArray<vscode.Diagnostic>,
+    ): Promise<Array<vscode.TextEdit>> {
+        const moduleByName = new Map<string, ModuleForCompletion>();
+        for (const diagnostic of diagnostics.filter(isCannotFindNameDiagnostic)) {
+            const name = doc.getText(diagnostic.range);
+            const modules = service.getModulesNamed(doc.uri, name);
+            if (modules.length === 1) {
+                moduleByName.set(name, modules[0]);
+            }
+        }
+        // Imports inserted at the same line end up in the order of their edits, so sort them first
+        const sortedEntries = u.sort(
+            Array.from(moduleByName),
+            ([, a], [, b]) => documentImports.compareModuleSpecifiers(a.importPath, b.importPath),
+        );
+        const format = makeImportStatementFormat(imports);
+        const edits: Array<vscode.TextEdit> = [];
+        for (const [name, module] of sortedEntries) {
+            const importStatement = await makeModuleImportStatementAsync(doc, format, name, module);
+            edits.push(documentImports.makeImportInsertEdit(imports, module.importPath, importStatement));
+        }
+        return edits;
+    }
+
+    /**
+     * Returns the edits turning the `import type` namespace imports that `diagnostics` report being
+     * used as values into plain imports.
+     */
+    function makeValueImportEdits(
+        doc: vscode.TextDocument,
+        imports: documentImports.DocumentImports,
+        diagnostics: ReadonlyArray<vscode.Diagnostic>,
+    ): Array<vscode.TextEdit> {
+        const names = new Set(diagnostics.filter(isTypeOnlyImportUsedAsValueDiagnostic).map(({range}) => doc.getText(range)));
+        return imports.importDeclarations.flatMap(importDeclaration => {
+            if (importDeclaration.namespaceAlias === null || !names.has(importDeclaration.namespaceAlias)) return [];
+            const edit = documentImports.makeValueImportEdit(imports, importDeclaration);
+            return edit === null ? [] : [edit];
+        });
+    }
+
+    // Lets `"editor.codeActionsOnSave": {"source.fixAll.typescriptNamespaceImports": true}` add them on save
+    const fixAllCodeActionKind = vscode.CodeActionKind.SourceFixAll.append('typescriptNamespaceImports');
+
+    const quickFixProvider = vscode.languages.registerCodeActionsProvider(
+        documentSelector,
+        {
+            async provideCodeActions(doc: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext) {
+                const isFixAllRequested = context.only?.contains(fixAllCodeActionKind) ?? false;
+                const diagnostics = context.diagnostics.filter(isCannotFindNameDiagnostic);
+                const usedAsValueDiagnostics = context.diagnostics.filter(isTypeOnlyImportUsedAsValueDiagnostic);
+                if (diagnostics.length === 0 && usedAsValueDiagnostics.length === 0 && !isFixAllRequested) return [];
+
+                const imports = documentImports.parseDocumentImports(doc);
+                const format = makeImportStatementFormat(imports);
+                const actions: Array<vscode.CodeAction> = [];
+                for (const diagnostic of diagnostics) {
+                    const name = doc.getText(diagnostic.range);
+                    const modules = service.getModulesNamed(doc.uri, name);
+                    for (const module of modules) {
+                        const action = new vscode.CodeAction(`Add namespace import from ${u.q(module.importPath)}`, vscode.CodeActionKind.QuickFix);
+                        action.diagnostics = [diagnostic];
+                        action.isPreferred = modules.length === 1;
+                        action.edit = new vscode.WorkspaceEdit();
+                        const importStatement = await makeModuleImportStatementAsync(doc, format, name, module);
+                        action.edit.set(doc.uri, [documentImports.makeImportInsertEdit(imports, module.importPath, importStatement)]);
+                        actions.push(action);
+                    }
+                }
+                for (const diagnostic of usedAsValueDiagnostics) {
+                    const edits = makeValueImportEdits(doc, imports, [diagnostic]);
+                    if (edits.length === 0) continue;
+                    const name = doc.getText(diagnostic.range);
+                    const action = new vscode.CodeAction(`Change ${u.q(name)} to a value import`, vscode.CodeActionKind.QuickFix);
+                    action.diagnostics = [diagnostic];
+                    action.isPreferred = true;
+                    action.edit = new vscode.WorkspaceEdit();
+                    action.edit.set(doc.uri, edits);
+                    actions.push(action);
+                }
+
+                const allDiagnostics = vscode.languages.getDiagnostics(doc.uri)
+                    .filter(diagnostic => isCannotFindNameDiagnostic(diagnostic) || isTypeOnlyImportUsedAsValueDiagnostic(diagnostic));
+                const fixAllEdits = [
+                    ...makeValueImportEdits(doc, imports, allDiagnostics),
+                    ...await makeAddAllMissingImportsEditsAsync(doc, imports, allDiagnostics),
+                ];
+                // Fixing all is only worth offering next to the single fixes when there's more than one
+                if (fixAllEdits.length > 1 || (isFixAllRequested && fixAllEdits.length > 0)) {
+                    const action = new vscode.CodeAction(
+                        'Fix all namespace imports',
+                        isFixAllRequested ? fixAllCodeActionKind : vscode.CodeActionKind.QuickFix,
+                    );
+                    action.diagnostics = allDiagnostics;
+                    action.edit = new vscode.WorkspaceEdit();
+                    action.edit.set(doc.uri, fixAllEdits);
+                    actions.push(action);
+                }
+                return actions;
+            },
+        },
+        {providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, fixAllCodeActionKind]},
+    );
+
+    const outputChannel = vscode.window.createOutputChannel('Typescript Namespace Imports');
+
+    /**
+     * Adds an import for every missing namespace in the files at `uris` that exactly one module
+     * reachable from the file goes by, and saves the files that changed.
+     */
+    async function addMissingImportsAsync(uris: ReadonlyArray<vscode.Uri>): Promise<missingImports.MissingImportsReport> {
+        await service.waitUntilIndexedAsync();
+
+        const report: missingImports.MissingImportsReport = {addedImports: [], ambiguousNames: [], unresolvedNames: [], failedPaths: []};
+        for (const uri of uris) {
+            let doc: vscode.TextDocument;
+            try {
+                doc = await vscode.workspace.openTextDocument(uri);
+            } catch (error) {
+                report.failedPaths.push({path: uri.path, error: `${error}`});
+                continue;
+            }
+            const ambientGlobalNames = await service.getAmbientGlobalNamesAsync(uri);
+            if (ambientGlobalNames === null) {
+                report.failedPaths.push({path: uri.path, error: 'No indexed project contains the file'});
+                continue;
+            }
+            const imports = documentImports.parseDocumentImports(doc);
+
+            const importsToAdd: Array<{name: string; module: ModuleForCompletion}> = [];
+            const names = Array.from(missingImports.findMissingNamespaceNames(imports, ambientGlobalNames)).sort();
+            for (const name of names) {
+                const modules = service.getModulesNamed(uri, name);
+                if (modules.length === 0) {
+                    report.unresolvedNames.push({path: uri.path, name});
+                } else if (modules.length > 1) {
+                    report.ambiguousNames.push({path: uri.path, name, importPaths: modules.map(({importPath}) => importPath)});
+                } else {
+                    report.addedImports.push({path: uri.path, name, importPath: modules[0].importPath});
+                    importsToAdd.push({name, module: modules[0]});
+                }
+            }
+            if (importsToAdd.length === 0) continue;
+
+            // Imports inserted at the same line end up in the order of their edits
+            const sortedImportsToAdd = u.sort(
+                importsToAdd,
+                (a, b) => documentImports.compareModuleSpecifiers(a.module.importPath, b.module.importPath),
+            );
+            const format = makeImportStatementFormat(imports);
+            const edits: Array<vscode.TextEdit> = [];
+            for (const {name, module} of sortedImportsToAdd) {
+                const importStatement = await makeModuleImportStatementAsync(doc, format, name, module);
+                edits.push(documentImports.makeImportInsertEdit(imports, module.importPath, importStatement));
+            }
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(uri, edits);
+            try {
+                if (!await vscode.workspace.applyEdit(workspaceEdit)) throw new Error('The imports could not be inserted');
+                if (!await doc.save()) throw new Error('The file could not be saved');
+            } catch (error) {
+                report.failedPaths.push({path: uri.path, error: `${error}`});
+            }
+        }
+        return report;
+    }
+
+    /**
+     * Adds missing imports to the files given, the files inside the folders given, or else the
+     * current file. Given arguments, as when run from the explorer or by another extension or a
+     * script through `executeCommand`, it returns the report; the report is also logged.
+     */
+    const addMissingImportsCommand = vscode.commands.registerCommand(
+        addMissingImportsCommandId,
+        async (uri?: vscode.Uri, selectedUris?: Array<vscode.Uri>) => {
+            let targetUris = selectedUris ?? (uri === undefined ? [] : [uri]);
+            if (targetUris.length === 0) {
+                const editor = vscode.window.activeTextEditor;
+                if (editor === undefined) return null;
+                targetUris = [editor.document.uri];
+            }
+
+            const fileUris: Array<vscode.Uri> = [];
+            const unreadablePaths: Array<{path: string; error: string}> = [];
+            for (const targetUri of targetUris) {
+                try {
+                    const stat = await vscode.workspace.fs.stat(targetUri);
+                    if (stat.type & vscode.FileType.Directory) {
+                        fileUris.push(...await vscode.workspace.findFiles(
+                            new vscode.RelativePattern(targetUri, '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'),
+                            '**/node_modules/**',
+                        ));
+                    } else {
+                        fileUris.push(targetUri);
+                    }
+                } catch (error) {
+                    unreadablePaths.push({path: targetUri.path, error: `${error}`});
+                }
+            }
+
+            const report = await addMissingImportsAsync(
+                fileUris.filter(fileUri => !fileUri.path.match(/\.d\.[cm]?ts$/)),
+            );
+            report.failedPaths.unshift(...unreadablePaths);
+            outputChannel.appendLine(missingImports.formatMissingImportsReport(report));
+            const skippedCount = report.ambiguousNames.length + report.unresolvedNames.length;
+            if (skippedCount > 0 || report.failedPaths.length > 0) {
+                outputChannel.show(true);
+            }
+            const message = `Added ${report.addedImports.length} namespace imports` + (skippedCount > 0 ? `, skipped ${skippedCount} names.` : '.');
+            if (report.failedPaths.length > 0) {
+                vscode.window.showWarningMessage(`${message} Failed on ${report.failedPaths.length} paths, see the output for why.`);
+            } else {
+                vscode.window.showInformationMessage(message);
+            }
+            return report;
+        },
+    );
+
+    // Whether a module exports nothing but types takes reading it, so the import of a completion
+    // item is only made `import type` when the item is resolved, rather than for every item listed
+    const importEditResolverByCompletionItem = new WeakMap<vscode.CompletionItem, () => Promise<vscode.TextEdit>>();
+
     const provider = vscode.languages.registerCompletionItemProvider(
-        [
-            {scheme: 'file', language: 'typescript'},
-            {scheme: 'file', language: 'typescriptreact'},
-        ],
+        documentSelector,
         {
             provideCompletionItems(doc: vscode.TextDocument, position: vscode.Position) {
-                const documentText = doc.getText();
-
+                // Modules only go where a name is referenced, so not in strings, comments, property
+                // keys or the templates of tags like gql`` that other extensions complete in
+                const imports = documentImports.parseDocumentImports(doc);
+                const completionPosition = completionPositions.classifyCompletionPosition(
+                    imports.sourceFile,
+                    doc.offsetAt(position),
+                    extensionSettings.suppressedTemplateTags,
+                );
+                if (completionPosition.type === 'none') {
+                    return new vscode.CompletionList([], true);
+                }
+                if (completionPosition.type === 'member') {
+                    return provideMemberCompletionItemsAsync(doc, imports, completionPosition.namespaceName);
+                }
                 const wordRange = doc.getWordRangeAtPosition(position);
-                // Don't provide completions if the cursor is inside a gql`` template literal to
-                // avoid conflicting with fragment name completions from the GraphQL extension.
-                if (wordRange === undefined || isInGraphQLTag(doc, position)) {
+                if (wordRange === undefined) {
                     return new vscode.CompletionList([], true);
                 }
-                const word = doc.getText(wordRange);
-                const modulesForCompletion = service.getModulesForCompletion(doc.uri, word);
-
-                let quoteChar: string;
-                switch (extensionSettings.quoteStyle) {
-                    case 'single': quoteChar = "'"; break;
-                    case 'double': quoteChar = '"'; break;
-                    default: throw u.impossible(extensionSettings.quoteStyle);
+                // Only the part of the word before the cursor has been typed as the query
+                const query = doc.getText(new vscode.Range(wordRange.start, position));
+                const {modulesForCompletion, isIncomplete} = service.getModulesForCompletion(doc.uri, query);
+
+                const existingImportByTsFilePath = new Map<TsFilePath, documentImports.ImportDeclarationInfo>();
+                for (const importDeclaration of imports.importDeclarations) {
+                    const tsFilePath = service.resolveImportPath(doc.uri, importDeclaration.moduleSpecifier);
+                    if (tsFilePath !== null) {
+                        existingImportByTsFilePath.set(tsFilePath, importDeclaration);
+                    }
                 }
 
+                const rankedModules = moduleRanking.rankModulesForCompletion(modulesForCompletion, {
+                    currentTsFilePath: doc.uri.path,
+                    boundNames: imports.boundNames,
+                    getUsage: usageHistory.get,
+                    nowMs: Date.now(),
+                });
                 const completionItems: Array<vscode.CompletionItem> = [];
-                for (const {moduleName, importPath} of modulesForCompletion) {
-                    const importStatement = `import * as ${moduleName} from ${quoteChar}${importPath}${quoteChar};\n`;
-                    if (!documentText.includes(importStatement)) {
-                        completionItems.push(uriHelpers.makeCompletionItem(moduleName, importStatement));
+                const format = makeImportStatementFormat(imports);
+                const isTypeOnlyImportPossible = prefersTypeOnlyImports(doc);
+                for (const [index, {module, isPreviouslyUsed}] of rankedModules.entries()) {
+                    const {moduleName, importPath, tsFilePath} = module;
+                    const existingImport = existingImportByTsFilePath.get(tsFilePath);
+                    if (existingImport !== undefined) {
+                        // The module is already imported. If it's imported under a different
+                        // namespace alias, complete to that alias rather than importing it twice.
+                        const alias = existingImport.namespaceAlias;
+                        if (alias !== null && alias !== moduleName) {
+                            completionItems.push(uriHelpers.makeExistingAliasCompletionItem(moduleName, alias));
+                        }
+                        continue;
                     }
+
+                    const alias = uriHelpers.makeCollisionFreeModuleName(moduleName, tsFilePath, imports.boundNames);
+                    const completionItem = uriHelpers.makeCompletionItem({
+                        moduleName,
+                        alias,
+                        importPath,
+                        importEdit: documentImports.makeImportInsertEdit(
+                            imports,
+                            importPath,
+                            importStatements.makeImportStatement(format, alias, importPath, false),
+                        ),
+                        sortText: index.toString().padStart(6, '0'),
+                        // Only preselect the best match when it's a module the user has picked before
+                        preselect: index === 0 && isPreviouslyUsed,
+                        command: makeRecordUsageCommand(tsFilePath),
+                    });
+                    if (isTypeOnlyImportPossible && !module.isDependency) {
+                        importEditResolverByCompletionItem.set(completionItem, async () =>
+                            documentImports.makeImportInsertEdit(imports, importPath, await makeModuleImportStatementAsync(doc, format, alias, module)),
+                        );
+                    }
+                    completionItems.push(completionItem);
+                }
+                return new vscode.CompletionList(completionItems, isIncomplete);
+            },
+            async resolveCompletionItem(completionItem: vscode.CompletionItem) {
+                const resolveImportEditAsync = importEditResolverByCompletionItem.get(completionItem);
+                if (resolveImportEditAsync !== undefined) {
+                    completionItem.additionalTextEdits = [await resolveImportEditAsync()];
                 }
-                return new vscode.CompletionList(completionItems, false);
+                return completionItem;
             },
         },
+        // Typing `fooBar.` asks for the members of the fooBar module
+        '.',
     );
 
-    context.subscriptions.push(provider, fileSystemWatcher, workspaceWatcher, configWatcher);
+    context.subscriptions.push(
+        provider,
+        fileSystemWatcher,
+        workspaceWatcher,
+        renameWatcher,
+        willRenameWatcher,
+        configWatcher,
+        recordUsageCommand,
+        convertCommand,
+        codeActionProvider,
+        quickFixProvider,
+        addMissingImportsCommand,
+        outputChannel,
+    );
 }
 
+const recordModuleUsageCommandId = 'typescriptNamespaceImports.recordModuleUsage';
+const convertToNamespaceImportsCommandId = 'typescriptNamespaceImports.convertToNamespaceImports';
+const addMissingImportsCommandId = 'typescriptNamespaceImports.addMissingImports';
+
+const documentSelector: vscode.DocumentSelector = [
+    {scheme: 'file', language: 'typescript'},
+    {scheme: 'file', language: 'typescriptreact'},
+    {scheme: 'file', language: 'javascript'},
+    {scheme: 'file', language: 'javascriptreact'},
+];
+
 // this method is called when your extension is deactivated
 // eslint-disable-next-line @typescript-eslint/no-empty-function
 export function deactivate() {}
 
 /**
- * Returns an approximation for whether the cursor is inside a gql`` template literal by searching
- * backwards in the document. Returns true if "gql`" is encountered before a standalone "`" or
- * a semicolon.
+ * Returns whether `diagnostic` is TypeScript's "Cannot find name 'x'" (2304) or "Cannot find name
+ * 'x'. Did you mean 'y'?" (2552).
  */
-function isInGraphQLTag(doc: vscode.TextDocument, position: vscode.Position): boolean {
-    const textBeforeCursor = doc.lineAt(position.line).text.slice(0, position.character);
-    if (openGraphQLTag.test(textBeforeCursor)) {
-        return true;
-    }
-    if (textBeforeCursor.includes('`') || textBeforeCursor.includes(';')) {
-        return false;
-    }
-    for (let i = position.line - 1; i >= 0; i--) {
-        const line = doc.lineAt(i).text;
-        if (openGraphQLTag.test(line)) {
-            return true;
-        }
-        if (line.includes('`') || line.includes(';')) {
-            return false;
-        }
-    }
-    return false;
+function isCannotFindNameDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return diagnostic.source === 'ts' && (code === 2304 || code === 2552);
+}
+
+/**
+ * Returns whether `diagnostic` is TypeScript's "'x' cannot be used as a value because it was
+ * imported using 'import type'" (1361).
+ */
+function isTypeOnlyImportUsedAsValueDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return diagnostic.source === 'ts' && code === 1361;
 }
-const openGraphQLTag = /gql`[^`]*$/;
@@ -0,0 +1,118 @@
+import * as ts from 'typescript';
+import * as u from './u';
+import {DocumentImports} from './document_imports';
+
+/**
+ * Which statement a namespace import is written as:
+ * - 'import': `import * as fooBar from './foo_bar';`
+ * - 'import-equals': `import fooBar = require('./foo_bar');`, for CommonJS TypeScript
+ * - 'require': `const fooBar = require('./foo_bar');`, for CommonJS JavaScript
+ */
+export type ImportStatementStyle = 'import' | 'import-equals' | 'require';
+
+export type QuoteStyle = 'single' | 'double';
+
+/**
+ * How the import statements added to a document look, so that they match the ones it has.
+ */
+export type ImportStatementFormat = {
+    style: ImportStatementStyle;
+    quoteStyle: QuoteStyle;
+    hasSemicolon: boolean;
+};
+
+export type ImportStatementSettings = {
+    importStatementStyle: 'auto' | ImportStatementStyle;
+    quoteStyle: 'auto' | QuoteStyle;
+};
+
+/**
+ * Works out the format of the imports to add to the document from the settings, filling in what's
+ * left to 'auto' from the imports and statements the document already has. A document without
+ * imports gets `import * as`, unless it's a CommonJS module.
+ */
+export function inferImportStatementFormat(
+    documentImports: DocumentImports,
+    settings: ImportStatementSettings,
+    isCommonJsModule: boolean,
+): ImportStatementFormat {
+    const isJavaScript = documentImports.doc.languageId.startsWith('javascript');
+    let style = settings.importStatementStyle === 'auto'
+        ? inferStyle(documentImports) ?? (!isCommonJsModule ? 'import' : isJavaScript ? 'require' : 'import-equals')
+        : settings.importStatementStyle;
+    // JavaScript has no `import x = require()`
+    if (style === 'import-equals' && isJavaScript) {
+        style = 'require';
+    }
+
+    return {
+        style,
+        quoteStyle: settings.quoteStyle === 'auto' ? inferQuoteStyle(documentImports) ?? 'single' : settings.quoteStyle,
+        hasSemicolon: inferHasSemicolon(documentImports) ?? true,
+    };
+}
+
+/**
+ * Returns the statement, ending with a newline, that imports `importPath` as `alias`. A `const`
+ * can't be type-only, so `isTypeOnly` makes no difference to 'require'.
+ */
+export function makeImportStatement(
+    {style, quoteStyle, hasSemicolon}: ImportStatementFormat,
+    alias: string,
+    importPath: string,
+    isTypeOnly: boolean,
+): string {
+    const quoteChar = quoteStyle === 'single' ? "'" : '"';
+    const quotedImportPath = `${quoteChar}${importPath}${quoteChar}`;
+    const typeKeyword = isTypeOnly ? 'type ' : '';
+    const end = hasSemicolon ? ';\n' : '\n';
+    switch (style) {
+        case 'import': return `import ${typeKeyword}* as ${alias} from ${quotedImportPath}${end}`;
+        case 'import-equals': return `import ${typeKeyword}${alias} = require(${quotedImportPath})${end}`;
+        case 'require': return `const ${alias} = require(${quotedImportPath})${end}`;
+        default: throw u.impossible(style);
+    }
+}
+
+// ES imports win over CommonJS ones in files that have both, as the file is an ES module then
+function inferStyle({importDeclarations}: DocumentImports): ImportStatementStyle | null {
+    if (importDeclarations.some(({node}) => ts.isImportDeclaration(node))) return 'import';
+    if (importDeclarations.some(({node}) => ts.isImportEqualsDeclaration(node))) return 'import-equals';
+    if (importDeclarations.length > 0) return 'require';
+    return null;
+}
+
+function inferQuoteStyle({sourceFile, importDeclarations}: DocumentImports): QuoteStyle | null {
+    if (importDeclarations.length === 0) return null;
+    const moduleSpecifier = findStringLiteral(importDeclarations[importDeclarations.length - 1].node);
+    if (moduleSpecifier === null) return null;
+    return sourceFile.text[moduleSpecifier.getStart(sourceFile)] === "'" ? 'single' : 'double';
+}
+
+// The module specifier is the first string literal in each kind of import statement
+function findStringLiteral(node: ts.Node): ts.StringLiteral | null {
+    if (ts.isStringLiteral(node)) return node;
+    return ts.forEachChild(node, child => findStringLiteral(child) ?? undefined) ?? null;
+}
+
+/**
+ * Returns whether the statements that can end with a semicolon mostly do, looking at the imports
+ * first and at the other top-level statements if there are none.
+ */
+function inferHasSemicolon({sourceFile, importDeclarations}: DocumentImports): boolean | null {
+    const statements: ReadonlyArray<ts.Statement> = importDeclarations.length > 0
+        ? importDeclarations.map(({node}) => node)
+        : sourceFile.statements.filter(takesSemicolon).slice(0, maxStatementsForSemicolonInference);
+    if (statements.length === 0) return null;
+    const withSemicolonCount = statements.filter(statement => statement.getText(sourceFile).endsWith(';')).length;
+    return withSemicolonCount * 2 >= statements.length;
+}
+const maxStatementsForSemicolonInference = 20;
+
+function takesSemicolon(statement: ts.Statement): boolean {
+    return ts.isVariableStatement(statement)
+        || ts.isExpressionStatement(statement)
+        || ts.isExportDeclaration(statement)
+        || ts.isExportAssignment(statement)
+        || ts.isTypeAliasDeclaration(statement);
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import {IndexConfig, StoredWorkspace} from './namespace_import_service';
+
+/**
+ * Keeps the index of each workspace folder in the extension's storage, so completions work right
+ * after activation while the workspace is indexed again in the background.
+ */
+export type IndexStore = {
+    // Returns null when nothing is stored, or when what's stored is outdated
+    loadAsync: (workspaceFolder: vscode.WorkspaceFolder, indexConfig: IndexConfig) => Promise<StoredWorkspace | null>;
+    saveAsync: (workspaceFolder: vscode.WorkspaceFolder, indexConfig: IndexConfig, storedWorkspace: StoredWorkspace) => Promise<void>;
+};
+
+// Bump whenever StoredWorkspace changes shape, so that indexes stored by older versions are ignored
+const indexFormatVersion = 7;
+
+type StoredIndex = {
+    formatVersion: number;
+    indexConfigKey: string;
+    // The hashes of the config files the index was built from, by path
+    configFileHashes: Record<string, string>;
+    workspace: StoredWorkspace;
+};
+
+export const IndexStore = {
+    make: (storageUri: vscode.Uri): IndexStore => {
+        return new IndexStoreImpl(storageUri);
+    },
+};
+
+class IndexStoreImpl implements IndexStore {
+    constructor(private storageUri: vscode.Uri) {}
+
+    loadAsync = async (workspaceFolder: vscode.WorkspaceFolder, indexConfig: IndexConfig): Promise<StoredWorkspace | null> => {
+        let storedIndex: unknown;
+        try {
+            storedIndex = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.getIndexUri(workspaceFolder))).toString('utf8'));
+        } catch {
+            return null;
+        }
+        if (!_.isPlainObject(storedIndex)) return null;
+
+        const {formatVersion, indexConfigKey, configFileHashes, workspace} = storedIndex as StoredIndex;
+        if (formatVersion !== indexFormatVersion || indexConfigKey !== makeIndexConfigKey(indexConfig)) return null;
+        // A changed tsconfig or package.json can change what every project contains
+        for (const [path, hash] of Object.entries(configFileHashes)) {
+            if (await hashFileAsync(workspaceFolder.uri.with({path})) !== hash) return null;
+        }
+        return workspace;
+    };
+
+    saveAsync = async (
+        workspaceFolder: vscode.WorkspaceFolder,
+        indexConfig: IndexConfig,
+        storedWorkspace: StoredWorkspace,
+    ): Promise<void> => {
+        const configFileHashes: Record<string, string> = {};
+        for (const path of storedWorkspace.configFilePaths) {
+            configFileHashes[path] = await hashFileAsync(workspaceFolder.uri.with({path}));
+        }
+        const storedIndex: StoredIndex = {
+            formatVersion: indexFormatVersion,
+            indexConfigKey: makeIndexConfigKey(indexConfig),
+            configFileHashes,
+            workspace: storedWorkspace,
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(this.getIndexUri(workspaceFolder), Buffer.from(JSON.stringify(storedIndex), 'utf8'));
+        } catch (error) {
+            console.warn(`Failed storing the index of workspace ${workspaceFolder.name}: ${error}`);
+        }
+    };
+
+    private getIndexUri(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri {
+        return vscode.Uri.joinPath(this.storageUri, `index-${hash(workspaceFolder.uri.toString())}.json`);
+    }
+}
+
+function makeIndexConfigKey(indexConfig: IndexConfig): string {
+    // The naming config holds compiled globs, which would otherwise serialize as `{}`
+    return hash(JSON.stringify(indexConfig, (_key, value) => value instanceof RegExp ? value.source : value));
+}
+
+// A missing file hashes to '', so that creating it invalidates the index as well
+async function hashFileAsync(uri: vscode.Uri): Promise<string> {
+    try {
+        return hash(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+    } catch {
+        return '';
+    }
+}
+
+function hash(text: string): string {
+    return crypto.createHash('sha1').update(text).digest('hex');
+}
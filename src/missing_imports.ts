@@ -0,0 +1,67 @@
+import * as ts from 'typescript';
+import {DocumentImports, makeSingleFileChecker} from './document_imports';
+
+/**
+ * Finds the names used as `name.member`, in values or in types, that nothing in the file declares
+ * or imports. These are the namespaces the file is missing an import for. The checker sees nothing
+ * but the file, so the globals of the project, like `Math` or `process`, are passed in as
+ * `ambientGlobalNames`.
+ */
+export function findMissingNamespaceNames({sourceFile}: DocumentImports, ambientGlobalNames: ReadonlySet<string>): Set<string> {
+    const checker = makeSingleFileChecker(sourceFile);
+    const missingNames = new Set<string>();
+    visit(sourceFile);
+    return missingNames;
+
+    function visit(node: ts.Node): void {
+        const namespace = ts.isPropertyAccessExpression(node) ? node.expression
+            : ts.isQualifiedName(node) ? node.left
+            : null;
+        if (
+            namespace !== null
+            && ts.isIdentifier(namespace)
+            && !ambientGlobalNames.has(namespace.text)
+            && !isDeclared(checker.getSymbolAtLocation(namespace))
+        ) {
+            missingNames.add(namespace.text);
+        }
+        ts.forEachChild(node, visit);
+    }
+}
+
+// In types, the checker stands in a symbol without declarations for names it can't resolve
+function isDeclared(symbol: ts.Symbol | undefined): boolean {
+    return (symbol?.declarations?.length ?? 0) > 0;
+}
+
+/**
+ * The outcome of adding missing imports to a batch of files. Names that no module or more than one
+ * module goes by are reported rather than guessed at.
+ */
+export type MissingImportsReport = {
+    addedImports: Array<{path: string; name: string; importPath: string}>;
+    ambiguousNames: Array<{path: string; name: string; importPaths: Array<string>}>;
+    unresolvedNames: Array<{path: string; name: string}>;
+    // Files and folders that couldn't be read, or files whose imports couldn't be saved
+    failedPaths: Array<{path: string; error: string}>;
+};
+
+export function formatMissingImportsReport({addedImports, ambiguousNames, unresolvedNames, failedPaths}: MissingImportsReport): string {
+    const lines = [`Added ${addedImports.length} imports`];
+    for (const {path, name, importPath} of addedImports) {
+        lines.push(`  ${path}: ${name} from ${importPath}`);
+    }
+    lines.push(`${ambiguousNames.length} ambiguous names`);
+    for (const {path, name, importPaths} of ambiguousNames) {
+        lines.push(`  ${path}: ${name} could be any of ${importPaths.join(', ')}`);
+    }
+    lines.push(`${unresolvedNames.length} unresolved names`);
+    for (const {path, name} of unresolvedNames) {
+        lines.push(`  ${path}: ${name}`);
+    }
+    lines.push(`${failedPaths.length} failed paths`);
+    for (const {path, error} of failedPaths) {
+        lines.push(`  ${path}: ${error}`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import {TsFilePath} from './namespace_import_service';
+
+/**
+ * A symbol that a module exports, which is a member of its namespace import.
+ */
+export type ModuleExport = {
+    name: string;
+    kind: ModuleExportKind;
+    // The declaration without its body or initializer, like 'function foo(bar: string): number'
+    signature: string;
+    // Whether it's only a type, like an interface or a name exported with `export type`
+    isTypeOnly: boolean;
+};
+
+export type ModuleExportKind =
+    | 'function'
+    | 'class'
+    | 'interface'
+    | 'type'
+    | 'enum'
+    | 'namespace'
+    | 'const'
+    | 'variable'
+    | 'reexport';
+
+type ResolveImportPathFn = (fromTsFilePath: TsFilePath, importPath: string) => TsFilePath | null;
+
+/**
+ * Reads the exports of the module at `tsFilePath` from its syntax alone, following re-exports
+ * through `resolveImportPath`. This is much cheaper than type checking, and needs nothing but the
+ * file itself to be on disk.
+ */
+export async function readModuleExportsAsync(
+    uri: vscode.Uri,
+    resolveImportPath: ResolveImportPathFn,
+): Promise<Array<ModuleExport>> {
+    const moduleExportByName = new Map<string, ModuleExport>();
+    await collectModuleExportsAsync(uri, resolveImportPath, moduleExportByName, new Set());
+    return Array.from(moduleExportByName.values());
+}
+
+async function collectModuleExportsAsync(
+    uri: vscode.Uri,
+    resolveImportPath: ResolveImportPathFn,
+    moduleExportByName: Map<string, ModuleExport>,
+    visitedTsFilePaths: Set<TsFilePath>,
+): Promise<void> {
+    if (visitedTsFilePaths.has(uri.path)) return;
+    visitedTsFilePaths.add(uri.path);
+
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (error) {
+        console.warn(`Error reading ${uri.path}: ${error}`);
+        return;
+    }
+    const sourceFile = ts.createSourceFile(uri.path, text, ts.ScriptTarget.Latest, true);
+
+    // `export *` doesn't re-export names the module declares itself, so collect those first
+    const starExports: Array<{tsFilePath: TsFilePath; isTypeOnly: boolean}> = [];
+    const typeOnlyLocalNames = collectTypeOnlyLocalNames(sourceFile);
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement)) {
+            const moduleSpecifier = statement.moduleSpecifier !== undefined && ts.isStringLiteral(statement.moduleSpecifier)
+                ? statement.moduleSpecifier.text
+                : null;
+            const exportClause = statement.exportClause;
+            if (exportClause === undefined) {
+                const tsFilePath = moduleSpecifier === null ? null : resolveImportPath(uri.path, moduleSpecifier);
+                if (tsFilePath !== null) {
+                    starExports.push({tsFilePath, isTypeOnly: statement.isTypeOnly});
+                }
+            } else if (ts.isNamespaceExport(exportClause)) {
+                const name = exportClause.name.text;
+                addModuleExport(moduleExportByName, name, 'namespace', `namespace ${name}`, statement.isTypeOnly);
+            } else {
+                for (const element of exportClause.elements) {
+                    // Whether a name re-exported from another module is a type would take reading
+                    // that module too, so it counts as a value
+                    const isTypeOnly = statement.isTypeOnly || element.isTypeOnly
+                        || (moduleSpecifier === null && typeOnlyLocalNames.has((element.propertyName ?? element.name).text));
+                    addModuleExport(moduleExportByName, element.name.text, 'reexport', element.getText(sourceFile), isTypeOnly);
+                }
+            }
+            continue;
+        }
+
+        if (ts.isExportAssignment(statement)) {
+            // `export =` replaces the module rather than adding a member to it
+            if (!statement.isExportEquals) {
+                addModuleExport(moduleExportByName, 'default', 'variable', 'default', false);
+            }
+            continue;
+        }
+
+        if (!hasExportModifier(statement)) continue;
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        for (const {name, kind} of declaredNames(statement)) {
+            addModuleExport(
+                moduleExportByName,
+                isDefault ? 'default' : name,
+                kind,
+                makeSignature(statement, sourceFile, name),
+                isTypeOnlyDeclaration(statement),
+            );
+        }
+    }
+
+    for (const {tsFilePath, isTypeOnly} of starExports) {
+        const starExportByName = new Map<string, ModuleExport>();
+        await collectModuleExportsAsync(uri.with({path: tsFilePath}), resolveImportPath, starExportByName, visitedTsFilePaths);
+        for (const moduleExport of starExportByName.values()) {
+            // `export *` never re-exports a default export
+            if (moduleExport.name !== 'default') {
+                // `export type *` makes even the values it re-exports usable as types only
+                addModuleExport(
+                    moduleExportByName,
+                    moduleExport.name,
+                    moduleExport.kind,
+                    moduleExport.signature,
+                    isTypeOnly || moduleExport.isTypeOnly,
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Returns whether the module exports nothing but types, so that a namespace import of it is only
+ * ever used in types.
+ */
+export function isTypeOnlyModule(moduleExports: ReadonlyArray<ModuleExport>): boolean {
+    return moduleExports.length > 0 && moduleExports.every(moduleExport => moduleExport.isTypeOnly);
+}
+
+function addModuleExport(
+    moduleExportByName: Map<string, ModuleExport>,
+    name: string,
+    kind: ModuleExportKind,
+    signature: string,
+    isTypeOnly: boolean,
+): void {
+    const existing = moduleExportByName.get(name);
+    // Declaration merging and overloads produce the same name more than once; keep the first, which
+    // is only a type if every declaration of the name is
+    if (existing === undefined) {
+        moduleExportByName.set(name, {name, kind, signature, isTypeOnly});
+    } else if (!isTypeOnly) {
+        existing.isTypeOnly = false;
+    }
+}
+
+/**
+ * Returns whether `statement` declares nothing that exists at runtime: an interface, a type alias,
+ * or a namespace with nothing but those inside of it.
+ */
+function isTypeOnlyDeclaration(statement: ts.Statement): boolean {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) return true;
+    if (!ts.isModuleDeclaration(statement) || statement.body === undefined) return false;
+    if (ts.isModuleDeclaration(statement.body)) return isTypeOnlyDeclaration(statement.body);
+    return ts.isModuleBlock(statement.body) && statement.body.statements.every(isTypeOnlyDeclaration);
+}
+
+/**
+ * Collects the names the module declares or imports only as types, which `export {name}` exports
+ * as types too.
+ */
+function collectTypeOnlyLocalNames(sourceFile: ts.SourceFile): Set<string> {
+    const typeOnlyNames = new Set<string>();
+    const valueNames = new Set<string>();
+    for (const statement of sourceFile.statements) {
+        if (ts.isImportDeclaration(statement)) {
+            const importClause = statement.importClause;
+            if (importClause === undefined) continue;
+            const names = importClause.isTypeOnly ? typeOnlyNames : valueNames;
+            if (importClause.name !== undefined) {
+                names.add(importClause.name.text);
+            }
+            const namedBindings = importClause.namedBindings;
+            if (namedBindings !== undefined && ts.isNamespaceImport(namedBindings)) {
+                names.add(namedBindings.name.text);
+            } else if (namedBindings !== undefined) {
+                for (const element of namedBindings.elements) {
+                    (element.isTypeOnly ? typeOnlyNames : names).add(element.name.text);
+                }
+            }
+            continue;
+        }
+        for (const {name} of declaredNames(statement)) {
+            (isTypeOnlyDeclaration(statement) ? typeOnlyNames : valueNames).add(name);
+        }
+    }
+    // A name that's also a value, like a const and a type of the same name, exports both
+    return new Set(Array.from(typeOnlyNames).filter(name => !valueNames.has(name)));
+}
+
+function declaredNames(statement: ts.Statement): Array<{name: string; kind: ModuleExportKind}> {
+    if (ts.isFunctionDeclaration(statement)) return statement.name === undefined ? [{name: 'default', kind: 'function'}] : [{name: statement.name.text, kind: 'function'}];
+    if (ts.isClassDeclaration(statement)) return statement.name === undefined ? [{name: 'default', kind: 'class'}] : [{name: statement.name.text, kind: 'class'}];
+    if (ts.isInterfaceDeclaration(statement)) return [{name: statement.name.text, kind: 'interface'}];
+    if (ts.isTypeAliasDeclaration(statement)) return [{name: statement.name.text, kind: 'type'}];
+    if (ts.isEnumDeclaration(statement)) return [{name: statement.name.text, kind: 'enum'}];
+    if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) return [{name: statement.name.text, kind: 'namespace'}];
+    if (ts.isVariableStatement(statement)) {
+        const kind = statement.declarationList.flags & ts.NodeFlags.Const ? 'const' : 'variable';
+        // Destructured exports are rare enough to skip
+        return statement.declarationList.declarations.flatMap(declaration =>
+            ts.isIdentifier(declaration.name) ? [{name: declaration.name.text, kind}] : [],
+        );
+    }
+    return [];
+}
+
+/**
+ * Prints the declaration of `name` in `statement` up to where its body or initializer begins, with
+ * the export modifiers left out.
+ */
+function makeSignature(statement: ts.Statement, sourceFile: ts.SourceFile, name: string): string {
+    const keptModifiers = getModifiers(statement).filter(modifier =>
+        modifier.kind !== ts.SyntaxKind.ExportKeyword && modifier.kind !== ts.SyntaxKind.DefaultKeyword,
+    );
+    const start = keptModifiers.length > 0 ? keptModifiers[0].getStart(sourceFile) : afterModifiers(statement, sourceFile);
+
+    let end = statement.getEnd();
+    if ((ts.isFunctionDeclaration(statement) || ts.isModuleDeclaration(statement)) && statement.body !== undefined) {
+        end = statement.body.getStart(sourceFile);
+    } else if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+        end = statement.members.pos - 1;
+    } else if (ts.isVariableStatement(statement)) {
+        const declaration = statement.declarationList.declarations.find(
+            declaration => ts.isIdentifier(declaration.name) && declaration.name.text === name,
+        );
+        if (declaration !== undefined) {
+            const keyword = statement.declarationList.getFirstToken(sourceFile)?.getText(sourceFile) ?? 'const';
+            const type = declaration.type === undefined ? '' : `: ${declaration.type.getText(sourceFile)}`;
+            return `${keyword} ${name}${type}`;
+        }
+    }
+    return sourceFile.text.slice(start, end).replace(/\s+/g, ' ').replace(/[\s;{=]+$/, '');
+}
+
+function afterModifiers(statement: ts.Statement, sourceFile: ts.SourceFile): number {
+    const modifiers = getModifiers(statement);
+    if (modifiers.length === 0) return statement.getStart(sourceFile);
+    const end = modifiers[modifiers.length - 1].getEnd();
+    return end + (sourceFile.text.slice(end).match(/^\s*/)?.[0].length ?? 0);
+}
+
+function hasExportModifier(statement: ts.Statement): boolean {
+    return hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+    return getModifiers(statement).some(modifier => modifier.kind === kind);
+}
+
+function getModifiers(statement: ts.Statement): ReadonlyArray<ts.Modifier> {
+    return ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+}
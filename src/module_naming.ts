@@ -0,0 +1,97 @@
+import * as _ from 'lodash';
+import * as u from './u';
+import {q, Result} from './u';
+
+export type NamingStrategy = typeof namingStrategies[number];
+const namingStrategies = ['camelCase', 'PascalCase', 'preserveSnakeCase', 'kebabToCamelCase'] as const;
+
+/**
+ * The parsed `typescriptNamespaceImports.naming` setting. Globs are matched against paths relative
+ * to the workspace folder, and the first matching entry wins.
+ */
+export type NamingConfig = {
+    strategy: NamingStrategy;
+    strategyOverrides: Array<{glob: RegExp; strategy: NamingStrategy}>;
+    aliases: Array<{glob: RegExp; alias: string}>;
+};
+
+export const NamingConfig = {
+    default: (): NamingConfig => ({
+        strategy: 'camelCase',
+        strategyOverrides: [],
+        aliases: [],
+    }),
+
+    parse: (value: unknown): Result<NamingConfig, string> => {
+        if (!_.isPlainObject(value)) return Result.err(`Expected an object. Got: ${u.stringify(value)}.`);
+        const obj = value as Record<string, unknown>;
+        const config = NamingConfig.default();
+
+        if (obj['strategy'] !== undefined) {
+            const result = parseStrategy(obj['strategy']);
+            if (!result.ok) return result.mapErr(err => `"strategy": ${err}`);
+            config.strategy = result.value;
+        }
+
+        if (obj['strategyOverrides'] !== undefined) {
+            if (!_.isPlainObject(obj['strategyOverrides'])) return Result.err('"strategyOverrides": Expected an object.');
+            for (const [glob, strategyValue] of Object.entries(obj['strategyOverrides'] as Record<string, unknown>)) {
+                const result = parseStrategy(strategyValue);
+                if (!result.ok) return result.mapErr(err => `"strategyOverrides" ${q(glob)}: ${err}`);
+                config.strategyOverrides.push({glob: u.globToRegExp(glob), strategy: result.value});
+            }
+        }
+
+        if (obj['aliases'] !== undefined) {
+            if (!_.isPlainObject(obj['aliases'])) return Result.err('"aliases": Expected an object.');
+            for (const [glob, alias] of Object.entries(obj['aliases'] as Record<string, unknown>)) {
+                if (typeof alias !== 'string' || !isIdentifier(alias)) {
+                    return Result.err(`"aliases" ${q(glob)}: Expected an identifier. Got: ${u.stringify(alias)}.`);
+                }
+                config.aliases.push({glob: u.globToRegExp(glob), alias});
+            }
+        }
+
+        return Result.ok(config);
+    },
+};
+
+/**
+ * Turns a file name without its extension into the namespace identifier for the module at
+ * `workspaceRelativePath`, according to the configured aliases and strategies.
+ */
+export function applyNamingConfig(
+    fileName: string,
+    workspaceRelativePath: string,
+    config: NamingConfig,
+): string {
+    const aliasEntry = config.aliases.find(({glob}) => glob.test(workspaceRelativePath));
+    if (aliasEntry !== undefined) return aliasEntry.alias;
+
+    const overrideEntry = config.strategyOverrides.find(({glob}) => glob.test(workspaceRelativePath));
+    return applyNamingStrategy(fileName, overrideEntry?.strategy ?? config.strategy);
+}
+
+function applyNamingStrategy(fileName: string, strategy: NamingStrategy): string {
+    switch (strategy) {
+        case 'camelCase': return _.camelCase(fileName);
+        case 'PascalCase': return _.upperFirst(_.camelCase(fileName));
+        case 'preserveSnakeCase': return toIdentifier(fileName);
+        case 'kebabToCamelCase': return toIdentifier(fileName.replace(/-+([^-])/g, (_match, char: string) => char.toUpperCase()));
+        default: throw u.impossible(strategy);
+    }
+}
+
+function parseStrategy(value: unknown): Result<NamingStrategy, string> {
+    if (typeof value !== 'string') return Result.err(`Expected a string. Got: ${u.stringify(value)}.`);
+    return u.parse.string.to.literalUnion([...namingStrategies])(value);
+}
+
+function toIdentifier(name: string): string {
+    const identifier = name.replace(/[^A-Za-z0-9_$]/g, '_');
+    return /^[0-9]/.test(identifier) ? '_' + identifier : identifier;
+}
+
+function isIdentifier(value: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
+}
@@ -0,0 +1,86 @@
+import * as pathUtil from 'path';
+import * as u from './u';
+import {ModuleForCompletion, TsFilePath} from './namespace_import_service';
+import {ModuleUsage} from './usage_history';
+
+/**
+ * What is known about a candidate module when ranking it for the file being edited.
+ */
+export type RankingContext = {
+    currentTsFilePath: TsFilePath;
+    // Names already bound in the current file, which a module can't be imported under as is
+    boundNames: ReadonlySet<string>;
+    getUsage: (tsFilePath: TsFilePath) => ModuleUsage | null;
+    nowMs: number;
+};
+
+export type RankedModule = {
+    module: ModuleForCompletion;
+    relevance: number;
+    // Whether the user has imported this module through a completion before
+    isPreviouslyUsed: boolean;
+};
+
+const weights = {
+    // How much worse each step from a prefix match to a camel-hump to a subsequence match is
+    matchScore: 4,
+    // Reached by a file in the same directory, and halved for every directory walked
+    proximity: 3,
+    sameProject: 1,
+    // Applied to log2 of the counts, so the first few imports matter most
+    workspaceImportCount: 1,
+    usageCount: 2,
+};
+const usageHalfLifeMs = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Orders candidates so that the ones importable under their own name come first, then by a
+ * relevance score combining how well the name matched, how close the module is to the current
+ * file, whether it's in the same project, how often the workspace already imports it and how
+ * often and recently the user has picked it.
+ */
+export function rankModulesForCompletion(
+    modulesForCompletion: ReadonlyArray<ModuleForCompletion>,
+    context: RankingContext,
+): Array<RankedModule> {
+    const rankedModules = modulesForCompletion.map(module => {
+        const usage = context.getUsage(module.tsFilePath);
+        return {
+            module,
+            relevance: computeRelevance(module, usage, context),
+            isPreviouslyUsed: usage !== null,
+        };
+    });
+    return u.sort(rankedModules, (a, b) => {
+        const collisionCmp = u.cmp.number(isCollision(a, context), isCollision(b, context));
+        if (collisionCmp !== 0) return collisionCmp;
+        const relevanceCmp = u.cmp.number(b.relevance, a.relevance);
+        if (relevanceCmp !== 0) return relevanceCmp;
+        return a.module.importPath.localeCompare(b.module.importPath);
+    });
+}
+
+function computeRelevance(module: ModuleForCompletion, usage: ModuleUsage | null, context: RankingContext): number {
+    const distance = countDirectorySteps(pathUtil.dirname(context.currentTsFilePath), pathUtil.dirname(module.tsFilePath));
+    let relevance = -weights.matchScore * module.matchScore
+        + weights.proximity * Math.pow(0.5, distance)
+        + (module.isSameProject ? weights.sameProject : 0)
+        + weights.workspaceImportCount * Math.log2(1 + module.workspaceImportCount);
+    if (usage !== null) {
+        const recency = Math.pow(0.5, Math.max(0, context.nowMs - usage.lastUsedMs) / usageHalfLifeMs);
+        relevance += weights.usageCount * Math.log2(1 + usage.count) * recency;
+    }
+    return relevance;
+}
+
+function isCollision({module}: RankedModule, context: RankingContext): number {
+    return context.boundNames.has(module.moduleName) ? 1 : 0;
+}
+
+/**
+ * The number of directories walked up and then down to get from one directory to the other.
+ */
+function countDirectorySteps(fromDirPath: string, toDirPath: string): number {
+    const relativePath = pathUtil.relative(fromDirPath, toDirPath);
+    return relativePath === '' ? 0 : relativePath.split('/').length;
+}
@@ -0,0 +1,244 @@
+/**
+ * Finds modules by name for a completion query. A name matches if the query is
+ * - a prefix of it: 'fooB' for 'fooBarRepository'
+ * - made of prefixes of its camel humps or snake_case words: 'fBR' or 'fooBRep'
+ * - a subsequence of it: 'fbr'
+ * all case-insensitively, and matches are ranked in that order.
+ *
+ * Names are bucketed by the first character of each of their words, so a query only has to look
+ * at the names that one of its matches could start with. Buckets are kept sorted shortest name
+ * first, so matches come out ranked and the search can stop once enough prefix matches are found.
+ */
+export class ModuleSearchIndex<T extends {moduleName: string}> {
+    private entriesByName = new Map<string, Array<T>>();
+    private bucketByWordStartChar = new Map<string, NameBucket>();
+    private indexedNameByName = new Map<string, IndexedName>();
+
+    get size(): number {
+        let size = 0;
+        for (const entries of this.entriesByName.values()) {
+            size += entries.length;
+        }
+        return size;
+    }
+
+    add(entry: T): void {
+        const entries = this.entriesByName.get(entry.moduleName);
+        if (entries !== undefined) {
+            entries.push(entry);
+            return;
+        }
+
+        this.entriesByName.set(entry.moduleName, [entry]);
+        const indexedName = makeIndexedName(entry.moduleName);
+        this.indexedNameByName.set(entry.moduleName, indexedName);
+        for (const char of wordStartChars(indexedName)) {
+            let bucket = this.bucketByWordStartChar.get(char);
+            if (bucket === undefined) {
+                bucket = {names: [], isSorted: true};
+                this.bucketByWordStartChar.set(char, bucket);
+            }
+            bucket.names.push(indexedName);
+            bucket.isSorted = false;
+        }
+    }
+
+    /**
+     * Removes the entries named `moduleName` that satisfy `predicateFn`.
+     */
+    remove(moduleName: string, predicateFn: (entry: T) => boolean): void {
+        const entries = this.entriesByName.get(moduleName);
+        if (entries === undefined) return;
+
+        const remaining = entries.filter(entry => !predicateFn(entry));
+        if (remaining.length > 0) {
+            this.entriesByName.set(moduleName, remaining);
+            return;
+        }
+
+        this.entriesByName.delete(moduleName);
+        const indexedName = this.indexedNameByName.get(moduleName);
+        if (indexedName === undefined) return;
+        this.indexedNameByName.delete(moduleName);
+        for (const char of wordStartChars(indexedName)) {
+            const bucket = this.bucketByWordStartChar.get(char);
+            if (bucket !== undefined) {
+                bucket.names.splice(bucket.names.indexOf(indexedName), 1);
+            }
+        }
+    }
+
+    /**
+     * Removes the entries that satisfy `predicateFn`, whatever their name. This visits every entry.
+     */
+    removeWhere(predicateFn: (entry: T) => boolean): void {
+        for (const moduleName of Array.from(this.entriesByName.keys())) {
+            this.remove(moduleName, predicateFn);
+        }
+    }
+
+    /**
+     * Returns up to `limit` entries matching `query` that `filterFn` accepts, best matches first,
+     * and whether more matches were left out.
+     */
+    search(
+        query: string,
+        limit: number,
+        filterFn: (entry: T) => boolean = () => true,
+    ): SearchResult<T> {
+        if (query === '') return {matches: [], isIncomplete: true};
+
+        const bucket = this.bucketByWordStartChar.get(query[0].toLowerCase());
+        if (bucket === undefined) return {matches: [], isIncomplete: false};
+        if (!bucket.isSorted) {
+            bucket.names.sort(compareIndexedNames);
+            bucket.isSorted = true;
+        }
+
+        // Since names are visited in rank order, each of these comes out sorted
+        const lowerQuery = query.toLowerCase();
+        const matchesByScore: Array<Array<SearchMatch<T>>> = Object.values(matchScores).map(() => []);
+        for (const indexedName of bucket.names) {
+            const score = scoreName(indexedName, lowerQuery);
+            if (score === null) continue;
+            for (const entry of this.entriesByName.get(indexedName.name) ?? []) {
+                if (filterFn(entry)) {
+                    matchesByScore[score].push({entry, score});
+                }
+            }
+            // Nothing later in the bucket can beat the prefix matches found so far
+            if (matchesByScore[matchScores.prefix].length > limit) break;
+        }
+
+        const matches = matchesByScore.flat();
+        return {
+            matches: matches.slice(0, limit),
+            isIncomplete: matches.length > limit,
+        };
+    }
+}
+
+export type SearchResult<T> = {
+    matches: Array<SearchMatch<T>>;
+    isIncomplete: boolean;
+};
+
+export type SearchMatch<T> = {
+    entry: T;
+    // Lower is better
+    score: number;
+};
+
+export function compareSearchMatches<T extends {moduleName: string}>(a: SearchMatch<T>, b: SearchMatch<T>): number {
+    if (a.score !== b.score) return a.score - b.score;
+    return compareNames(a.entry.moduleName, b.entry.moduleName);
+}
+
+// Shorter names first, since they're closer to what has been typed
+function compareNames(a: string, b: string): number {
+    if (a.length !== b.length) return a.length - b.length;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareIndexedNames(a: IndexedName, b: IndexedName): number {
+    return compareNames(a.name, b.name);
+}
+
+type NameBucket = {
+    names: Array<IndexedName>;
+    isSorted: boolean;
+};
+
+const matchScores = {
+    prefix: 0,
+    camelHumps: 1,
+    subsequence: 2,
+};
+
+/**
+ * A name with what matching needs precomputed, so that queries don't redo it for every name.
+ */
+type IndexedName = {
+    name: string;
+    lowerName: string;
+    wordStarts: Array<number>;
+};
+
+function makeIndexedName(name: string): IndexedName {
+    return {name, lowerName: name.toLowerCase(), wordStarts: wordStartIndexes(name)};
+}
+
+function scoreName(indexedName: IndexedName, lowerQuery: string): number | null {
+    const {lowerName} = indexedName;
+    if (lowerName.startsWith(lowerQuery)) return matchScores.prefix;
+    // Neither of the other kinds of match can succeed if the characters aren't all there in order
+    if (!isSubsequence(lowerName, lowerQuery)) return null;
+    if (matchesWordPrefixes(indexedName, lowerQuery)) return matchScores.camelHumps;
+    if (lowerName[0] === lowerQuery[0]) return matchScores.subsequence;
+    return null;
+}
+
+/**
+ * Returns whether `lowerQuery` can be split into pieces that are prefixes of successive words of
+ * the name, where a piece may skip words but has to start at the beginning of one.
+ */
+function matchesWordPrefixes({lowerName, wordStarts}: IndexedName, lowerQuery: string): boolean {
+    return matchFrom(0, 0);
+
+    function matchFrom(queryIndex: number, wordIndex: number): boolean {
+        if (queryIndex === lowerQuery.length) return true;
+        for (let w = wordIndex; w < wordStarts.length; w++) {
+            const wordEnd = w + 1 < wordStarts.length ? wordStarts[w + 1] : lowerName.length;
+            let i = wordStarts[w];
+            let q = queryIndex;
+            while (i < wordEnd && q < lowerQuery.length && lowerName[i] === lowerQuery[q]) {
+                i++;
+                q++;
+                // Try continuing with the next word after every character consumed from this one
+                if (matchFrom(q, w + 1)) return true;
+            }
+        }
+        return false;
+    }
+}
+
+function isSubsequence(lowerName: string, lowerQuery: string): boolean {
+    let q = 0;
+    for (let i = 0; i < lowerName.length && q < lowerQuery.length; i++) {
+        if (lowerName[i] === lowerQuery[q]) q++;
+    }
+    return q === lowerQuery.length;
+}
+
+function wordStartChars({lowerName, wordStarts}: IndexedName): Set<string> {
+    return new Set(wordStarts.map(i => lowerName[i]));
+}
+
+/**
+ * The indexes where camelCase humps, PascalCase humps and words between '_' or '$' begin.
+ */
+function wordStartIndexes(name: string): Array<number> {
+    const indexes: Array<number> = [];
+    for (let i = 0; i < name.length; i++) {
+        const char = name[i];
+        if (char === '_' || char === '$') continue;
+        const prev = i > 0 ? name[i - 1] : '';
+        const isWordStart = prev === ''
+            || prev === '_'
+            || prev === '$'
+            || (isUpperCase(char) && !isUpperCase(prev))
+            || (isDigit(char) && !isDigit(prev));
+        if (isWordStart) {
+            indexes.push(i);
+        }
+    }
+    return indexes;
+}
+
+function isUpperCase(char: string): boolean {
+    return char !== char.toLowerCase();
+}
+
+function isDigit(char: string): boolean {
+    return char >= '0' && char <= '9';
+}
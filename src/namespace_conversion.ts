@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import {DocumentImports, makeSingleFileChecker} from './document_imports';
+import {Result} from './u';
+
+/**
+ * An import with named or default bindings, like `import a, {b, c as d} from './foo_bar'`, that can
+ * be rewritten into `import * as fooBar from './foo_bar'`.
+ */
+export type ConvertibleImport = {
+    node: ts.ImportDeclaration;
+    moduleSpecifier: string;
+    importClause: ts.ImportClause;
+    // The name each binding refers to in the module: 'default' for the default import
+    importedNameByBinding: Map<ts.Identifier, string>;
+};
+
+export function findConvertibleImports(documentImports: DocumentImports): Array<ConvertibleImport> {
+    const convertibleImports: Array<ConvertibleImport> = [];
+    for (const {node, moduleSpecifier, namespaceAlias} of documentImports.importDeclarations) {
+        if (!ts.isImportDeclaration(node) || namespaceAlias !== null) continue;
+        const importClause = node.importClause;
+        if (importClause === undefined) continue;
+
+        const importedNameByBinding = new Map<ts.Identifier, string>();
+        if (importClause.name !== undefined) {
+            importedNameByBinding.set(importClause.name, 'default');
+        }
+        let hasStringNames = false;
+        const namedBindings = importClause.namedBindings;
+        if (namedBindings !== undefined && ts.isNamedImports(namedBindings)) {
+            for (const element of namedBindings.elements) {
+                const importedName = element.propertyName ?? element.name;
+                // `import {'kebab-name' as x}` has no `fooBar.` equivalent that also works in types
+                hasStringNames ||= ts.isStringLiteral(importedName);
+                importedNameByBinding.set(element.name, importedName.text);
+            }
+        }
+        if (importedNameByBinding.size > 0 && !hasStringNames) {
+            convertibleImports.push({node, moduleSpecifier, importClause, importedNameByBinding});
+        }
+    }
+    return convertibleImports;
+}
+
+/**
+ * Returns the edits that rewrite `convertibleImport` into a namespace import named `namespaceName`
+ * and every reference to its bindings into `namespaceName.member`, or an error if some reference
+ * can't be rewritten.
+ *
+ * References are found with a type checker over the document alone, so that a local variable
+ * shadowing an imported name is left alone.
+ */
+export function makeNamespaceConversionEdits(
+    documentImports: DocumentImports,
+    convertibleImport: ConvertibleImport,
+    namespaceName: string,
+): Result<Array<vscode.TextEdit>, string> {
+    const {doc, sourceFile} = documentImports;
+    const {importClause, importedNameByBinding} = convertibleImport;
+    const checker = makeSingleFileChecker(sourceFile);
+
+    const importedNameBySymbol = new Map<ts.Symbol, string>();
+    for (const [binding, importedName] of importedNameByBinding) {
+        const symbol = checker.getSymbolAtLocation(binding);
+        if (symbol !== undefined) {
+            importedNameBySymbol.set(symbol, importedName);
+        }
+    }
+
+    const edits: Array<vscode.TextEdit> = [];
+    const replace = (start: number, end: number, newText: string) => {
+        edits.push(vscode.TextEdit.replace(new vscode.Range(doc.positionAt(start), doc.positionAt(end)), newText));
+    };
+
+    // Keep `import type` as it is, and the rest of the declaration with it
+    const bindingsStart = (importClause.name ?? importClause.namedBindings)?.getStart(sourceFile) ?? importClause.getStart(sourceFile);
+    replace(bindingsStart, importClause.getEnd(), `* as ${namespaceName}`);
+
+    let err: string | null = null;
+    visit(sourceFile);
+    if (err !== null) return Result.err(err);
+    return Result.ok(edits);
+
+    function visit(node: ts.Node): void {
+        if (node === convertibleImport.node || err !== null) return;
+        if (ts.isIdentifier(node)) {
+            visitIdentifier(node);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    }
+
+    function visitIdentifier(identifier: ts.Identifier): void {
+        const parent = identifier.parent;
+        const symbol = ts.isShorthandPropertyAssignment(parent) ? checker.getShorthandAssignmentValueSymbol(parent)
+            : ts.isExportSpecifier(parent) ? checker.getExportSpecifierLocalTargetSymbol(parent)
+            : checker.getSymbolAtLocation(identifier);
+        const importedName = symbol === undefined ? undefined : importedNameBySymbol.get(symbol);
+        if (importedName === undefined) return;
+
+        const memberAccess = `${namespaceName}.${importedName}`;
+        if (ts.isShorthandPropertyAssignment(parent)) {
+            replace(identifier.getStart(sourceFile), identifier.getEnd(), `${identifier.text}: ${memberAccess}`);
+        } else if (ts.isExportSpecifier(parent)) {
+            err = `${identifier.text} is re-exported, which a namespace member can't be`;
+        } else {
+            replace(identifier.getStart(sourceFile), identifier.getEnd(), memberAccess);
+        }
+    }
+}
@@ -1,33 +1,104 @@
 import * as vscode from 'vscode';
+import * as _ from 'lodash';
 import * as u from './u';
 import {q, Result} from './u';
 import * as uriHelpers from './uri_helpers';
+import * as pathMappings from './path_mappings';
 import * as pathUtil from 'path';
 import * as ts from 'typescript';
+import * as tsconfigLoader from './tsconfig_loader';
+import * as projectMembership from './project_membership';
+import {NamingConfig} from './module_naming';
+import {ProjectFileMatcher} from './project_membership';
+import {ImportModuleSpecifierPreference, ImportPathExtStyle} from './uri_helpers';
+import * as dependencyModules from './dependency_modules';
+import * as ambientGlobals from './ambient_globals';
+import {DependencyModule, PackageType} from './dependency_modules';
+import {IndexStore} from './index_store';
+import * as workspacePackages from './workspace_packages';
+import {compareSearchMatches, ModuleSearchIndex, SearchMatch} from './module_search_index';
+import {WorkspacePackage} from './workspace_packages';
 
 type Workspace = {
     workspaceFolder: vscode.WorkspaceFolder;
     tsProjectByPath: Map<TsProjectPath, TsProject>;
     ownerTsProjectPathByTsFilePath: Map<TsFilePath, TsProjectPath>;
+    // Every indexed file, including those that no project owns
+    tsFilePaths: Set<TsFilePath>;
+    // Directories that contain an index file
+    barrelDirPaths: Set<string>;
+    // Every tsconfig in the workspace, plus the files they extend
+    tsConfigFilePaths: Set<string>;
+    // The indexed files each file imports, and how many files import each indexed file
+    importedTsFilePathsByTsFilePath: Map<TsFilePath, Array<TsFilePath>>;
+    importCountByTsFilePath: Map<TsFilePath, number>;
+    // When each file was modified as of reading its imports, to tell which files changed since
+    mtimeMsByTsFilePath: Map<TsFilePath, number>;
+    // The packages of a monorepo, and the package import paths of their modules in every extension style
+    packages: Array<WorkspacePackage>;
+    tsFilePathByPackageImportPath: Map<string, TsFilePath>;
 };
 
 export type TsProject = {
     tsConfigJson: TsConfigJson;
     workspaceFolder: vscode.WorkspaceFolder;
-    modulesForBareImportByQueryFirstChar: Map<string, Array<ModuleForBareImport>>;
-    modulesForRelativeImportByQueryFirstChar: Map<string, Array<ModuleForRelativeImport>>;
+    // The tsconfig and the files it extends
+    configFilePaths: Array<string>;
+    fileMatcher: ProjectFileMatcher;
+    // The file matchers of the projects listed in `references`, whose files this project can import
+    referencedFileMatchers: Array<ProjectFileMatcher>;
+    modulesForBareImport: ModuleSearchIndex<ModuleForBareImport>;
+    modulesForRelativeImport: ModuleSearchIndex<ModuleForRelativeImport>;
+    // The dependencies of the project, by the import paths they're imported by
+    dependencyByImportPath: Map<string, DependencyModule>;
+    packageType: PackageType;
+    // The import paths that `paths` and `baseUrl` give the workspace's files, or null for none,
+    // since checking them against TypeScript's resolution is what indexing spends most time on
+    bareImportPathByTsFilePath: Map<TsFilePath, string | null>;
+    // What the project's lib and types declare globally, found once missing imports are first
+    // looked for, since that takes loading every lib file
+    ambientGlobalNames: Set<string> | null;
 };
 
+/**
+ * The options of a tsconfig, merged with everything it extends. All paths are absolute, except
+ * for the `paths` mappings when there's a `baseUrl`.
+ */
 export type TsConfigJson = {
     baseUrl: string | null;
     paths: Record<string, Array<string>> | null;
     outDir: string | null;
+    rootDir: string | null;
+    // The directories whose contents relative imports see as merged into one
+    rootDirs: Array<string> | null;
+    // Whether JavaScript files are part of the project, which is the default for jsconfig.json
+    allowJs: boolean;
+    // Lowercased, like 'nodenext'
+    module: string | null;
+    moduleResolution: string | null;
+    allowImportingTsExtensions: boolean;
+    rewriteRelativeImportExtensions: boolean;
+    // With either, imports are kept as written or the file is compiled on its own, so an import that
+    // only types are used from needs to say so with `import type`
+    verbatimModuleSyntax: boolean;
+    isolatedModules: boolean;
+    // Lowercased, like 'es2022' and 'dom', which along with `types` decide what's declared globally
+    target: string | null;
+    lib: Array<string> | null;
+    types: Array<string> | null;
+    files: Array<string> | null;
+    include: Array<string> | null;
+    exclude: Array<string> | null;
+    // Paths of the referenced tsconfig files
+    references: Array<string>;
 };
 
 type ModuleForBareImport = {
     moduleName: string;
     tsFilePath: TsFilePath;
     importPath: string;
+    // Whether files that can reach the module may import it by a relative path instead
+    allowsRelativeImport: boolean;
 };
 
 type ModuleForRelativeImport = {
@@ -35,238 +106,632 @@ type ModuleForRelativeImport = {
     tsFilePath: TsFilePath;
 };
 
+/**
+ * The settings that decide what ends up in the cache, so changing any of them rebuilds it.
+ */
+export type IndexConfig = {
+    namingConfig: NamingConfig;
+    // File names that make a directory importable by its own path, e.g. 'index.ts'
+    indexFileNames: ReadonlyArray<string>;
+    // Whether to hide modules inside a directory with an index file from files outside of it
+    hideBarrelInternals: boolean;
+    // Globs for the file names of project config files, e.g. 'tsconfig.*.json' or 'jsconfig.json'
+    tsConfigFileNames: ReadonlyArray<string>;
+    // Overrides the import path extension style derived from each project's compilerOptions
+    importPathExtension: 'auto' | ImportPathExtStyle;
+    // Whether modules reachable both ways are imported by a relative or a non-relative path
+    importModuleSpecifierPreference: ImportModuleSpecifierPreference;
+    // The identifiers dependencies are imported as, by import path, like 'lodash' to '_'
+    dependencyAliases: Record<string, string>;
+};
+
+/**
+ * What a workspace's index is built from, in a form that can be stored between sessions. The
+ * projects' maps are cheap to rebuild from it; it's listing and reading the files that's slow.
+ */
+export type StoredWorkspace = {
+    tsProjects: Array<StoredTsProject>;
+    packages: Array<WorkspacePackage>;
+    files: Array<StoredFile>;
+    // The tsconfigs and package manifests whose changes make the stored index outdated
+    configFilePaths: Array<string>;
+};
+
+type StoredTsProject = {
+    tsProjectPath: TsProjectPath;
+    tsConfigJson: TsConfigJson;
+    configFilePaths: Array<string>;
+    dependencies: Array<DependencyModule>;
+    packageType: PackageType;
+    bareImportPaths: Record<TsFilePath, string | null>;
+};
+
+type StoredFile = {
+    tsFilePath: TsFilePath;
+    // Null if the file's imports weren't read, because no project owns it
+    mtimeMs: number | null;
+    importedTsFilePaths: Array<TsFilePath>;
+};
+
 type WorkspaceName = string;
 export type TsFilePath = string;
+// The path of the project's tsconfig file
 export type TsProjectPath = string;
 
 
 export type CompletionItemsService = {
-    getModulesForCompletion: (uri: vscode.Uri, query: string) => Array<ModuleForCompletion>;
+    getModulesForCompletion: (uri: vscode.Uri, query: string) => ModulesForCompletion;
+    getModulesNamed: (uri: vscode.Uri, moduleName: string) => Array<ModuleForCompletion>;
+    resolveImportPath: (uri: vscode.Uri, importPath: string) => TsFilePath | null;
+    getModuleName: (uri: vscode.Uri, importPath: string) => string | null;
+    isDependencyImport: (uri: vscode.Uri, importPath: string) => boolean;
+    getModuleNameOfFile: (uri: vscode.Uri) => string | null;
+    needsTypeOnlyImports: (uri: vscode.Uri) => boolean;
+    isCommonJsModule: (uri: vscode.Uri) => boolean;
+    getAmbientGlobalNamesAsync: (uri: vscode.Uri) => Promise<ReadonlySet<string> | null>;
+    getIndexedTsFilePaths: (uri: vscode.Uri) => Array<TsFilePath>;
+    getImportingTsFilePaths: (uri: vscode.Uri) => Array<TsFilePath>;
+
+    // Resolves once the initial indexing of the workspace is done
+    waitUntilIndexedAsync: () => Promise<void>;
 
     handleWorkspaceChangedAsync: (event: vscode.WorkspaceFoldersChangeEvent) => Promise<void>;
+    handleIndexConfigChangedAsync: (indexConfig: IndexConfig) => Promise<void>;
     handleFileCreatedAsync: (uri: vscode.Uri) => Promise<void>;
     handleFileDeletedAsync: (uri: vscode.Uri) => Promise<void>;
     handleFileChangedAsync: (uri: vscode.Uri) => Promise<void>;
+    handleFilesRenamedAsync: (files: ReadonlyArray<{oldUri: vscode.Uri; newUri: vscode.Uri}>) => Promise<void>;
 };
 
 export type ModuleForCompletion = {
     moduleName: string;
     importPath: string;
+    // For dependencies, the path of the package or subpath rather than of a file
+    tsFilePath: TsFilePath;
+    // Whether the module is a package from node_modules or a Node built-in
+    isDependency: boolean;
+    // How well the name matched the query, lower is better
+    matchScore: number;
+    // Whether the module belongs to the same project as the current file
+    isSameProject: boolean;
+    // How many files in the workspace import the module
+    workspaceImportCount: number;
 };
 
+export type ModulesForCompletion = {
+    modulesForCompletion: Array<ModuleForCompletion>;
+    // Whether more modules match than were returned, so the query should be re-run as it grows
+    isIncomplete: boolean;
+};
+
+// Shipping thousands of items to VS Code on every keystroke is slow, so cap the results
+const maxModulesForCompletion = 100;
+
+// The `module` kinds that follow Node, where a package.json without `"type": "module"` makes CommonJS
+const nodeModuleKinds = ['node16', 'node18', 'node20', 'nodenext'];
+
 export const CompletionItemsService = {
-    make: (workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>): CompletionItemsService => {
-        return new CompletionItemsServiceImpl(workspaceFolders);
+    make: (
+        workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>,
+        indexConfig: IndexConfig,
+        indexStore: IndexStore,
+    ): CompletionItemsService => {
+        return new CompletionItemsServiceImpl(workspaceFolders, indexConfig, indexStore);
     },
 };
 
-// TODO: Using this map makes intellisense quick even in large projects, but a more elegant
-// solution might be to implement some type of trie tree for CompletionItems
+// How long to wait after the last file event before updating the index, so that a branch checkout
+// touching hundreds of files is handled as a single batch
+const fileEventDebounceMs = 300;
+// How long to wait after the first file event at most, so that files written over and over can't
+// hold off updating the index
+const fileEventMaxWaitMs = 1500;
+
+type FileEvent =
+    | {type: 'created' | 'changed' | 'deleted'; uri: vscode.Uri}
+    | {type: 'renamed'; oldUri: vscode.Uri; newUri: vscode.Uri};
+
+// A file event with renames split up, and directories told apart from files
+type FileChange = {
+    type: 'created' | 'changed' | 'deleted';
+    uri: vscode.Uri;
+    isDirectory: boolean;
+};
+
 export class CompletionItemsServiceImpl implements CompletionItemsService {
     private workspaceByName: Map<WorkspaceName, Workspace>;
+    private indexConfig: IndexConfig;
+    private initialResetPromise: Promise<void>;
+    // Resets and batches of file events run one at a time, in the order they were requested
+    private updateQueue: Promise<void>;
+    private resetTokenSourceByName: Map<WorkspaceName, vscode.CancellationTokenSource>;
+    private pendingFileEvents: Array<FileEvent>;
+    private pendingFileEventResolvers: Array<() => void>;
+    private fileEventTimer: NodeJS.Timeout | null;
+    private firstPendingFileEventMs: number | null;
 
-    constructor(workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>) {
+    constructor(
+        workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>,
+        indexConfig: IndexConfig,
+        private indexStore: IndexStore,
+    ) {
         this.workspaceByName = new Map();
+        this.indexConfig = indexConfig;
+        this.updateQueue = Promise.resolve();
+        this.resetTokenSourceByName = new Map();
+        this.pendingFileEvents = [];
+        this.pendingFileEventResolvers = [];
+        this.fileEventTimer = null;
+        this.firstPendingFileEventMs = null;
+        this.initialResetPromise = this.restoreAndResetAsync(workspaceFolders);
+    }
+
+    waitUntilIndexedAsync = async (): Promise<void> => {
+        await this.initialResetPromise;
+    };
+
+    /**
+     * Serves completions from the stored index of each folder right away, then indexes the folders
+     * again, reusing what was stored for the files that haven't been modified since.
+     */
+    private restoreAndResetAsync = async (workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>): Promise<void> => {
+        const storedWorkspaceByName = new Map<WorkspaceName, StoredWorkspace>();
+        for (const workspaceFolder of workspaceFolders) {
+            const storedWorkspace = await this.indexStore.loadAsync(workspaceFolder, this.indexConfig);
+            if (storedWorkspace === null) continue;
+            storedWorkspaceByName.set(workspaceFolder.name, storedWorkspace);
+            this.workspaceByName.set(workspaceFolder.name, restoreWorkspace(workspaceFolder, this.indexConfig, storedWorkspace));
+        }
+        await this.resetAsync(workspaceFolders, storedWorkspaceByName);
+    };
 
-        u.fireAndForget(async () => {
-            await this.resetAsync(workspaceFolders);
+    /**
+     * Indexes the workspace folders from scratch. Resets of the same folders that are still queued
+     * or running are cancelled, since their results would be replaced anyway.
+     */
+    private resetAsync = (
+        workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>,
+        storedWorkspaceByName: ReadonlyMap<WorkspaceName, StoredWorkspace> = new Map(),
+    ): Promise<void> => {
+        const tokens = workspaceFolders.map(workspaceFolder => this.startReset(workspaceFolder));
+        return this.enqueueUpdateAsync(async () => {
+            for (const [index, workspaceFolder] of workspaceFolders.entries()) {
+                await this.resetWorkspaceAsync(workspaceFolder, storedWorkspaceByName.get(workspaceFolder.name) ?? null, tokens[index]);
+            }
         });
-    }
+    };
 
-    private resetAsync = async (workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder>): Promise<void> => {
-        const workspaceByName = new Map<WorkspaceName, Workspace>();
-        await updateWorkspaceByNameInPlaceAsync(workspaceByName, workspaceFolders, []);
-        this.workspaceByName = workspaceByName;
+    private startReset(workspaceFolder: vscode.WorkspaceFolder): vscode.CancellationToken {
+        const previousTokenSource = this.resetTokenSourceByName.get(workspaceFolder.name);
+        previousTokenSource?.cancel();
+        previousTokenSource?.dispose();
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.resetTokenSourceByName.set(workspaceFolder.name, tokenSource);
+        return tokenSource.token;
     }
 
-    handleWorkspaceChangedAsync = async (event: vscode.WorkspaceFoldersChangeEvent) => {
-        await updateWorkspaceByNameInPlaceAsync(this.workspaceByName, event.added, event.removed);
+    // Must only run from the update queue
+    private resetWorkspaceAsync = async (
+        workspaceFolder: vscode.WorkspaceFolder,
+        storedWorkspace: StoredWorkspace | null,
+        token: vscode.CancellationToken,
+    ): Promise<void> => {
+        if (token.isCancellationRequested) return;
+        const result = await makeWorkspaceAsync(
+            workspaceFolder,
+            this.indexConfig,
+            storedWorkspace,
+            this.enqueueUpdateAsync,
+            this.handleWorkspaceIndexed,
+            token,
+        );
+        if (token.isCancellationRequested) return;
+        if (result.ok) {
+            this.workspaceByName.set(workspaceFolder.name, result.value);
+        } else {
+            console.warn(result.err);
+        }
     };
 
-    handleFileCreatedAsync = async (uri: vscode.Uri) => {
-        if (pathUtil.basename(uri.path) === 'tsconfig.json') {
-            await this.resetAsync(
-                Array.from(this.workspaceByName.values()).map(workspace => workspace.workspaceFolder),
-            );
-            return;
-        }
-        if (!isTsFile(uri)) return;
+    private enqueueUpdateAsync = (updateAsync: () => Promise<void>): Promise<void> => {
+        // A failed update mustn't keep the ones after it from running
+        this.updateQueue = this.updateQueue.then(updateAsync).catch(error => {
+            console.error(`Failed updating the index: ${error}`);
+        });
+        return this.updateQueue;
+    };
 
-        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
-        if (!checkResult.ok) {
-            console.warn(`handleFileCreated: ${checkResult.err}`);
-            return;
-        }
-        const workspace = checkResult.value;
+    // Stores the workspace for the next activation, along with the config it was indexed with
+    private handleWorkspaceIndexed = (workspace: Workspace, indexConfig: IndexConfig): void => {
+        u.fireAndForget(() => this.indexStore.saveAsync(workspace.workspaceFolder, indexConfig, toStoredWorkspace(workspace)));
+    };
 
-        // Add file to all projects that can access it
-        for (const [tsProjectPath, tsProject] of workspace.tsProjectByPath.entries()) {
-            const evalResult = uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri);
-            switch (evalResult.type) {
-                case 'bareImport': {
-                    const {moduleName, importPath} = evalResult;
-                    u.map.getOrCreate(tsProject.modulesForBareImportByQueryFirstChar, u.firstChar(moduleName), () => [])
-                        .push({moduleName, importPath, tsFilePath: uri.path});
-                    break;
-                }
-                case 'relativeImport': {
-                    const {moduleName} = evalResult;
-                    u.map.getOrCreate(tsProject.modulesForRelativeImportByQueryFirstChar, u.firstChar(moduleName), () => [])
-                        .push({moduleName, tsFilePath: uri.path});
-                    break;
-                }
-                case 'importDisallowed': break;
-                default: throw u.impossible(evalResult);
-            }
+    handleWorkspaceChangedAsync = async (event: vscode.WorkspaceFoldersChangeEvent) => {
+        for (const workspaceFolder of event.removed) {
+            this.startReset(workspaceFolder);
         }
+        await this.enqueueUpdateAsync(async () => {
+            for (const workspaceFolder of event.removed) {
+                this.workspaceByName.delete(workspaceFolder.name);
+            }
+        });
+        await this.resetAsync(event.added);
+    };
 
-        const ownerTsProjectPath = uriHelpers.findOwnerTsProjectForTsFile(uri, workspace.tsProjectByPath.keys());
-        if (ownerTsProjectPath === null) {
-            console.warn(`No TypeScript project found for file: ${uri.path}`);
-            return;
-        }
-        workspace.ownerTsProjectPathByTsFilePath.set(uri.path, ownerTsProjectPath);
+    handleIndexConfigChangedAsync = async (indexConfig: IndexConfig) => {
+        this.indexConfig = indexConfig;
+        await this.resetAsync(
+            Array.from(this.workspaceByName.values()).map(workspace => workspace.workspaceFolder),
+        );
     };
 
-    handleFileDeletedAsync = async (uri: vscode.Uri) => {
-        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
-        if (!checkResult.ok) {
-            console.warn(`handleFileDeleted: ${checkResult.err}`);
-            return;
+    handleFileCreatedAsync = (uri: vscode.Uri): Promise<void> => {
+        return this.enqueueFileEventsAsync([{type: 'created', uri}]);
+    };
+
+    handleFileDeletedAsync = (uri: vscode.Uri): Promise<void> => {
+        return this.enqueueFileEventsAsync([{type: 'deleted', uri}]);
+    };
+
+    handleFileChangedAsync = (uri: vscode.Uri): Promise<void> => {
+        return this.enqueueFileEventsAsync([{type: 'changed', uri}]);
+    };
+
+    handleFilesRenamedAsync = (files: ReadonlyArray<{oldUri: vscode.Uri; newUri: vscode.Uri}>): Promise<void> => {
+        return this.enqueueFileEventsAsync(files.map(({oldUri, newUri}) => ({type: 'renamed', oldUri, newUri})));
+    };
+
+    /**
+     * Collects file events until none have come in for a while, or until the first of them has
+     * waited long enough, then updates the index for all of them at once. Resolves once that's done.
+     */
+    private enqueueFileEventsAsync(fileEvents: ReadonlyArray<FileEvent>): Promise<void> {
+        const relevantFileEvents = fileEvents.filter(this.isRelevantFileEvent);
+        if (relevantFileEvents.length === 0) return Promise.resolve();
+
+        this.pendingFileEvents.push(...relevantFileEvents);
+        const nowMs = Date.now();
+        this.firstPendingFileEventMs ??= nowMs;
+        if (this.fileEventTimer !== null) {
+            clearTimeout(this.fileEventTimer);
         }
-        const workspace = checkResult.value;
+        const delayMs = Math.min(fileEventDebounceMs, this.firstPendingFileEventMs + fileEventMaxWaitMs - nowMs);
+        this.fileEventTimer = setTimeout(() => {
+            this.fileEventTimer = null;
+            this.firstPendingFileEventMs = null;
+            const pendingFileEvents = this.pendingFileEvents;
+            const pendingFileEventResolvers = this.pendingFileEventResolvers;
+            this.pendingFileEvents = [];
+            this.pendingFileEventResolvers = [];
+            this.enqueueUpdateAsync(() => this.processFileEventsAsync(pendingFileEvents)).then(() => {
+                pendingFileEventResolvers.forEach(resolve => resolve());
+            });
+        }, Math.max(delayMs, 0));
+        return new Promise(resolve => this.pendingFileEventResolvers.push(resolve));
+    }
 
-        if (pathUtil.extname(uri.path) === '') {
-            // If 'uri' looks like a directory...
+    /**
+     * Returns whether a file event may change the index, so that files that can never be modules,
+     * like logs, `.git` internals and build output, don't delay the updates that do.
+     */
+    private isRelevantFileEvent = (fileEvent: FileEvent): boolean => {
+        // Renames are only made in VS Code, and may move whole directories of modules
+        if (fileEvent.type === 'renamed') return true;
 
-            for (const tsProjectPath of workspace.tsProjectByPath.keys()) {
-                if (tsProjectPath.startsWith(uri.path)) {
-                    await this.resetAsync(
-                        Array.from(this.workspaceByName.values()).map(workspace => workspace.workspaceFolder),
-                    );
-                    return;
-                }
-            }
+        const {type, uri} = fileEvent;
+        // Tsconfigs can extend ones from packages, like node_modules/@tsconfig/node20/tsconfig.json
+        if (u.iter.some(this.workspaceByName.values(), workspace => workspace.tsConfigFilePaths.has(uri.path))) return true;
+        if (uri.path.includes('/node_modules/') || uri.path.includes('/.git/')) return false;
 
-            for (const tsProject of workspace.tsProjectByPath.values()) {
-                for (const [key, modules] of tsProject.modulesForBareImportByQueryFirstChar) {
-                    tsProject.modulesForBareImportByQueryFirstChar.set(
-                        key,
-                        modules.filter(module => !module.tsFilePath.startsWith(uri.path)),
-                    );
-                }
-                for (const [key, modules] of tsProject.modulesForRelativeImportByQueryFirstChar) {
-                    tsProject.modulesForRelativeImportByQueryFirstChar.set(
-                        key,
-                        modules.filter(module => !module.tsFilePath.startsWith(uri.path)),
-                    );
-                }
-            }
+        // Until its folder is indexed, it's unknown what the folder's projects and packages are
+        const workspaceFolder = getWorkspaceFolderFromUri(uri);
+        const workspace = workspaceFolder === null ? undefined : this.workspaceByName.get(workspaceFolder.name);
+        if (workspace === undefined) return true;
 
-            const toRemove: Array<TsFilePath> = [];
-            for (const tsFilePath of workspace.ownerTsProjectPathByTsFilePath.keys()) {
-                if (tsFilePath.startsWith(uri.path)) {
-                    toRemove.push(tsFilePath);
+        if (this.isTsConfigFile(uri) || isWorkspacePackagesManifest(workspace, uri)) return true;
+        if (type === 'deleted' && hasIndexedPathsInDirectory(workspace, uri.path)) return true;
+        return uriHelpers.isModuleFile(uri.path) && !isFileInOutDir(uri, workspace.tsProjectByPath);
+    };
+
+    private processFileEventsAsync = async (fileEvents: ReadonlyArray<FileEvent>): Promise<void> => {
+        const fileChangesByWorkspaceName = new Map<WorkspaceName, Array<FileChange>>();
+        const isIndexedDirectory = (uri: vscode.Uri) => u.iter.some(
+            this.workspaceByName.values(),
+            workspace => hasIndexedPathsInDirectory(workspace, uri.path),
+        );
+        for (const fileChange of coalesceFileChanges(await expandFileEventsAsync(fileEvents, isIndexedDirectory))) {
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileChange.uri);
+            if (workspaceFolder === undefined || !this.workspaceByName.has(workspaceFolder.name)) continue;
+            u.map.getOrCreate(fileChangesByWorkspaceName, workspaceFolder.name, () => []).push(fileChange);
+        }
+        for (const [workspaceName, fileChanges] of fileChangesByWorkspaceName) {
+            await this.applyFileChangesAsync(u.map.getOrThrow(this.workspaceByName, workspaceName), fileChanges);
+        }
+    };
+
+    /**
+     * Updates the workspace for a batch of changes. Changes to tsconfigs only rebuild the projects
+     * that depend on them; only changes to which packages there are re-index the whole folder.
+     */
+    private applyFileChangesAsync = async (workspace: Workspace, fileChanges: ReadonlyArray<FileChange>): Promise<void> => {
+        const {workspaceFolder} = workspace;
+        const changedConfigFilePaths = new Set<string>();
+        for (const {uri, isDirectory} of fileChanges) {
+            if (isDirectory) {
+                // Projects inside of a deleted or moved directory are gone
+                for (const tsProjectPath of workspace.tsProjectByPath.keys()) {
+                    if (tsProjectPath.startsWith(uri.path + '/')) {
+                        changedConfigFilePaths.add(tsProjectPath);
+                    }
                 }
-            }
-            for (const tsFilePath of toRemove) {
-                workspace.ownerTsProjectPathByTsFilePath.delete(tsFilePath);
-            }
-        } else {
-            if (pathUtil.basename(uri.path) === 'tsconfig.json') {
-                await this.resetAsync(
-                    Array.from(this.workspaceByName.values()).map(workspace => workspace.workspaceFolder),
-                );
+            } else if (isWorkspacePackagesManifest(workspace, uri)) {
+                await this.resetWorkspaceAsync(workspaceFolder, null, this.startReset(workspaceFolder));
                 return;
+            } else if (this.isTsConfigFile(uri)) {
+                changedConfigFilePaths.add(uri.path);
             }
-            if (!isTsFile(uri)) return;
-
-            // Remove file from all projects that had it cached
-            for (const [tsProjectPath, tsProject] of workspace.tsProjectByPath.entries()) {
-                const evalResult = uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri);
-                switch (evalResult.type) {
-                    case 'bareImport': {
-                        const {moduleName} = evalResult;
-                        const itemsInMap = tsProject.modulesForBareImportByQueryFirstChar.get(u.firstChar(moduleName));
-                        if (itemsInMap !== undefined) {
-                            tsProject.modulesForBareImportByQueryFirstChar.set(
-                                u.firstChar(moduleName),
-                                itemsInMap.filter(itemInMap => itemInMap.tsFilePath !== uri.path),
-                            );
-                        }
-                        break;
+        }
+
+        // Deletions go first, so that files created inside of a deleted directory are kept
+        const addedOrRemovedTsFilePaths: Array<TsFilePath> = [];
+        for (const {type, uri, isDirectory} of _.sortBy(fileChanges, ({type}) => type === 'deleted' ? 0 : 1)) {
+            if (!isDirectory && !uriHelpers.isModuleFile(uri.path)) continue;
+            if (uri.path.includes('node_modules/') || isFileInOutDir(uri, workspace.tsProjectByPath)) continue;
+
+            switch (type) {
+                case 'deleted': {
+                    if (isDirectory) {
+                        addedOrRemovedTsFilePaths.push(...removeDirectoryFromWorkspace(workspace, uri.path));
+                    } else {
+                        removeFileFromWorkspace(workspace, uri, this.indexConfig);
+                        addedOrRemovedTsFilePaths.push(uri.path);
                     }
-                    case 'relativeImport': {
-                        const {moduleName} = evalResult;
-                        const modulesInMap = tsProject.modulesForRelativeImportByQueryFirstChar.get(u.firstChar(moduleName));
-                        if (modulesInMap !== undefined) {
-                            tsProject.modulesForRelativeImportByQueryFirstChar.set(
-                                u.firstChar(moduleName),
-                                modulesInMap.filter(module => module.tsFilePath !== uri.path),
-                            );
-                        }
-                        break;
+                    break;
+                }
+                case 'created': {
+                    await addFileToWorkspaceAsync(workspace, uri, this.indexConfig);
+                    addedOrRemovedTsFilePaths.push(uri.path);
+                    break;
+                }
+                case 'changed': {
+                    if (workspace.ownerTsProjectPathByTsFilePath.has(uri.path)) {
+                        await updateImportsOfFileAsync(workspace, uri);
                     }
-                    case 'importDisallowed': break;
-                    default: throw u.impossible(evalResult);
+                    break;
                 }
+                default: throw u.impossible(type);
             }
-
-            workspace.ownerTsProjectPathByTsFilePath.delete(uri.path);
         }
-    };
+        reevaluateShadowingModules(workspace, addedOrRemovedTsFilePaths, this.indexConfig);
 
-    handleFileChangedAsync = async (uri: vscode.Uri): Promise<void> => {
-        if (pathUtil.basename(uri.path) === 'tsconfig.json') {
-            await this.resetAsync(
-                Array.from(this.workspaceByName.values()).map(workspace => workspace.workspaceFolder),
-            );
+        if (changedConfigFilePaths.size > 0) {
+            const isUpdated = await updateTsProjectsAsync(workspace, changedConfigFilePaths, this.indexConfig);
+            if (!isUpdated) {
+                await this.resetWorkspaceAsync(workspaceFolder, null, this.startReset(workspaceFolder));
+            }
         }
     };
 
     getModulesForCompletion = (
         uri: vscode.Uri,
         query: string,
-    ): Array<ModuleForCompletion> => {
+    ): ModulesForCompletion => {
         const checkResult = this.checkChangedFileAndGetWorkspace(uri);
         if (!checkResult.ok) {
             console.warn(`getCompletionList: ${checkResult.err}`);
-            return [];
+            return {modulesForCompletion: [], isIncomplete: false};
         }
         const workspace = checkResult.value;
 
         const currentProjectPath = workspace.ownerTsProjectPathByTsFilePath.get(uri.path) ?? null;
         if (currentProjectPath === null) {
             console.warn(`No TypeScript project found for current file: ${uri.path}`);
-            return [];
+            return {modulesForCompletion: [], isIncomplete: false};
         }
         const currentProject = u.map.getOrThrow(workspace.tsProjectByPath, currentProjectPath);
 
-        const firstChar = u.firstChar(query);
-        const modulesForCompletion: Array<ModuleForCompletion> = [];
-
-        const modulesForBareImport = currentProject.modulesForBareImportByQueryFirstChar.get(firstChar) ?? [];
-        for (const {moduleName, importPath, tsFilePath} of modulesForBareImport) {
-            if (tsFilePath === uri.path) continue;
-            modulesForCompletion.push({moduleName, importPath});
-        }
+        const {indexFileNames, hideBarrelInternals, importModuleSpecifierPreference} = this.indexConfig;
+        const importPathExtStyle = uriHelpers.getImportPathExtStyle(currentProject.tsConfigJson, this.indexConfig);
+        const isVisible = ({tsFilePath}: {tsFilePath: TsFilePath}) => tsFilePath !== uri.path && !(
+            hideBarrelInternals
+            && uriHelpers.isHiddenBehindBarrel(tsFilePath, uri.path, workspace.barrelDirPaths, indexFileNames)
+        );
 
+        // Search both indexes with the full limit, then keep the best matches of either
+        const bareResult = currentProject.modulesForBareImport.search(query, maxModulesForCompletion, isVisible);
+        const relativeResult = currentProject.modulesForRelativeImport.search(query, maxModulesForCompletion, isVisible);
         const currentFileDirPath = pathUtil.dirname(uri.path);
-        const modulesForRelativeImport = currentProject.modulesForRelativeImportByQueryFirstChar.get(firstChar) ?? [];
-        for (const {moduleName, tsFilePath} of modulesForRelativeImport) {
-            if (tsFilePath === uri.path) continue;
+        // Like tsc, prefer a path through the project's rootDirs over the physical one
+        const makeRelativeImportPath = (tsFilePath: TsFilePath) => pathMappings.makeRootDirsImportPath(
+            currentProjectPath,
+            currentProject.tsConfigJson,
+            uri.path,
+            tsFilePath,
+            workspace.tsFilePaths,
+            indexFileNames,
+            importPathExtStyle,
+        ) ?? uriHelpers.makeRelativeImportPath(currentFileDirPath, tsFilePath, indexFileNames, importPathExtStyle);
+        const isSameProject = (tsFilePath: TsFilePath) => workspace.ownerTsProjectPathByTsFilePath.get(tsFilePath) === currentProjectPath;
+        const matches: Array<SearchMatch<{moduleName: string; importPath: string; tsFilePath: TsFilePath}>> = [
+            ...bareResult.matches.map(({entry: {moduleName, importPath, tsFilePath, allowsRelativeImport}, score}) => ({
+                entry: {
+                    moduleName,
+                    // Decided per file, since it depends on where the current file is
+                    importPath: allowsRelativeImport && importModuleSpecifierPreference !== 'non-relative'
+                        ? uriHelpers.chooseImportPath(
+                            importModuleSpecifierPreference,
+                            importPath,
+                            makeRelativeImportPath(tsFilePath),
+                            isSameProject(tsFilePath),
+                        )
+                        : importPath,
+                    tsFilePath,
+                },
+                score,
+            })),
+            ...relativeResult.matches.map(({entry: {moduleName, tsFilePath}, score}) => ({
+                entry: {
+                    moduleName,
+                    importPath: makeRelativeImportPath(tsFilePath),
+                    tsFilePath,
+                },
+                score,
+            })),
+        ];
+        matches.sort(compareSearchMatches);
+
+        return {
+            modulesForCompletion: matches.slice(0, maxModulesForCompletion).map(({entry, score}) => ({
+                ...entry,
+                matchScore: score,
+                isDependency: currentProject.dependencyByImportPath.get(entry.importPath)?.dependencyPath === entry.tsFilePath,
+                isSameProject: isSameProject(entry.tsFilePath),
+                workspaceImportCount: workspace.importCountByTsFilePath.get(entry.tsFilePath) ?? 0,
+            })),
+            isIncomplete: bareResult.isIncomplete || relativeResult.isIncomplete || matches.length > maxModulesForCompletion,
+        };
+    };
+
+    /**
+     * Returns the modules the file at `uri` can import that are named exactly `moduleName`.
+     */
+    getModulesNamed = (uri: vscode.Uri, moduleName: string): Array<ModuleForCompletion> => {
+        // Exact matches rank first, so they always make it past the result cap
+        return this.getModulesForCompletion(uri, moduleName).modulesForCompletion
+            .filter(module => module.moduleName === moduleName);
+    };
 
-            let importPathWithExt = pathUtil.relative(currentFileDirPath, tsFilePath);
-            if (!importPathWithExt.startsWith('..')) {
-                importPathWithExt = './' + importPathWithExt;
+    /**
+     * Resolves an import path written in the file at `uri` to the indexed file it refers to, using
+     * TypeScript's module resolution against the owner project's compilerOptions.
+     */
+    resolveImportPath = (uri: vscode.Uri, importPath: string): TsFilePath | null => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return null;
+        return resolveImportPathInWorkspace(checkResult.value, uri.path, importPath);
+    };
+
+    /**
+     * Returns the name the module that `importPath` refers to is offered under, or null if it isn't
+     * an indexed module.
+     */
+    getModuleName = (uri: vscode.Uri, importPath: string): string | null => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return null;
+        const workspace = checkResult.value;
+
+        const dependency = findDependency(workspace, uri.path, importPath);
+        if (dependency !== null) return dependency.moduleName;
+
+        const tsFilePath = resolveImportPathInWorkspace(workspace, uri.path, importPath);
+        if (tsFilePath === null) return null;
+        return uriHelpers.makeModuleName(uri.with({path: tsFilePath}), workspace.workspaceFolder, this.indexConfig);
+    };
+
+    /**
+     * Returns whether `importPath` in the file at `uri` refers to a package from node_modules or a
+     * Node built-in rather than a workspace module.
+     */
+    isDependencyImport = (uri: vscode.Uri, importPath: string): boolean => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return false;
+        return findDependency(checkResult.value, uri.path, importPath) !== null;
+    };
+
+    /**
+     * Returns the name the module at `uri` is offered under, whether or not the file exists.
+     */
+    getModuleNameOfFile = (uri: vscode.Uri): string | null => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return null;
+        return uriHelpers.makeModuleName(uri, checkResult.value.workspaceFolder, this.indexConfig);
+    };
+
+    /**
+     * Returns whether the project of the file at `uri` needs `import type` for modules that only
+     * types are used from, because of `verbatimModuleSyntax` or `isolatedModules`.
+     */
+    needsTypeOnlyImports = (uri: vscode.Uri): boolean => {
+        const tsConfigJson = this.getOwnerTsConfigJson(uri);
+        return tsConfigJson !== null && (tsConfigJson.verbatimModuleSyntax || tsConfigJson.isolatedModules);
+    };
+
+    /**
+     * Returns whether the file at `uri` is a CommonJS module, going by its extension or else by its
+     * project's `module`, and for the Node ones by the `type` of the project's package.json.
+     */
+    isCommonJsModule = (uri: vscode.Uri): boolean => {
+        if (/\.c[jt]s$/.test(uri.path)) return true;
+        if (/\.m[jt]s$/.test(uri.path)) return false;
+        const tsProject = this.getOwnerTsProject(uri)?.tsProject ?? null;
+        if (tsProject === null) return false;
+        const {module} = tsProject.tsConfigJson;
+        if (module === 'commonjs') return true;
+        return module !== null && nodeModuleKinds.includes(module) && tsProject.packageType === 'commonjs';
+    };
+
+    /**
+     * Returns the names that the lib and types of the project of the file at `uri` declare
+     * globally, or null if no project owns the file.
+     */
+    getAmbientGlobalNamesAsync = async (uri: vscode.Uri): Promise<ReadonlySet<string> | null> => {
+        const owner = this.getOwnerTsProject(uri);
+        if (owner === null) return null;
+        const {workspace, tsProjectPath, tsProject} = owner;
+        if (tsProject.ambientGlobalNames === null) {
+            const libDirPath = await ambientGlobals.findTypeScriptLibDirAsync(tsProjectPath, workspace.workspaceFolder);
+            if (libDirPath === null) {
+                console.warn(`No TypeScript lib files found for ${q(tsProjectPath)}, so only the globals of its types are known`);
             }
-            const importPath = u.pathWithoutExt(importPathWithExt);
-            modulesForCompletion.push({moduleName, importPath});
+            tsProject.ambientGlobalNames = ambientGlobals.listAmbientGlobalNames(tsProjectPath, tsProject.tsConfigJson, libDirPath);
         }
+        return tsProject.ambientGlobalNames;
+    };
+
+    private getOwnerTsConfigJson(uri: vscode.Uri): TsConfigJson | null {
+        return this.getOwnerTsProject(uri)?.tsProject.tsConfigJson ?? null;
+    }
+
+    private getOwnerTsProject(uri: vscode.Uri): {workspace: Workspace; tsProjectPath: TsProjectPath; tsProject: TsProject} | null {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return null;
+        const workspace = checkResult.value;
+        const tsProjectPath = workspace.ownerTsProjectPathByTsFilePath.get(uri.path) ?? null;
+        if (tsProjectPath === null) return null;
+        return {workspace, tsProjectPath, tsProject: u.map.getOrThrow(workspace.tsProjectByPath, tsProjectPath)};
+    }
+
+    /**
+     * Returns the indexed file at `uri`, or the indexed files inside of it if it's a directory.
+     */
+    getIndexedTsFilePaths = (uri: vscode.Uri): Array<TsFilePath> => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return [];
+        return Array.from(checkResult.value.tsFilePaths)
+            .filter(tsFilePath => tsFilePath === uri.path || tsFilePath.startsWith(uri.path + '/'));
+    };
 
-        return modulesForCompletion;
+    /**
+     * Returns the files that import the module at `uri`.
+     */
+    getImportingTsFilePaths = (uri: vscode.Uri): Array<TsFilePath> => {
+        const checkResult = this.checkChangedFileAndGetWorkspace(uri);
+        if (!checkResult.ok) return [];
+        return Array.from(checkResult.value.importedTsFilePathsByTsFilePath)
+            .filter(([, importedTsFilePaths]) => importedTsFilePaths.includes(uri.path))
+            .map(([tsFilePath]) => tsFilePath);
     };
 
+    /**
+     * Returns whether `uri` is a project config file, a file that one of them extends, or a file
+     * that defines the workspace's packages, whose changes require rebuilding the cache.
+     */
+    private isTsConfigFile(uri: vscode.Uri): boolean {
+        return isTsConfigFileName(pathUtil.basename(uri.path), this.indexConfig.tsConfigFileNames)
+            || u.iter.some(this.workspaceByName.values(), workspace => workspace.tsConfigFilePaths.has(uri.path))
+            || u.iter.some(this.workspaceByName.values(), workspace => isPackageManifest(workspace, uri));
+    }
+
     private checkChangedFileAndGetWorkspace(uri: vscode.Uri): Result<Workspace, string> {
         const workspaceFolder = getWorkspaceFolderFromUri(uri);
         if (workspaceFolder === null) return Result.err(`uri ${q(uri.path)}: failed to lookup workspace folder for uri`);
@@ -283,33 +748,40 @@ export class CompletionItemsServiceImpl implements CompletionItemsService {
     }
 }
 
-async function updateWorkspaceByNameInPlaceAsync(
-    workspaceByName: Map<WorkspaceName, Workspace>,
-    foldersToAdd: ReadonlyArray<vscode.WorkspaceFolder>,
-    foldersToDelete: ReadonlyArray<vscode.WorkspaceFolder>,
-): Promise<void> {
-    for (const folder of foldersToAdd) {
-        const result = await makeWorkspaceAsync(folder);
-        if (result.ok) {
-            workspaceByName.set(folder.name, result.value);
-        } else {
-            console.warn(result.err);
-        }
-    }
-    for (const folder of foldersToDelete) {
-        workspaceByName.delete(folder.name);
-    }
-    // console.log('workspaceByName', u.stringify(workspaceByName));
-}
-
+/**
+ * Indexes the workspace folder from scratch, except that the imports of files not modified since
+ * `storedWorkspace` was stored are taken from it. Calls `onWorkspaceIndexed` once the imports of
+ * every file are known, which happens in the background, as an update of its own so that file
+ * changes aren't applied in the middle of it. Stops early once `token` is cancelled.
+ */
 async function makeWorkspaceAsync(
     workspaceFolder: vscode.WorkspaceFolder,
+    indexConfig: IndexConfig,
+    storedWorkspace: StoredWorkspace | null,
+    enqueueUpdateAsync: (updateAsync: () => Promise<void>) => Promise<void>,
+    onWorkspaceIndexed: (workspace: Workspace, indexConfig: IndexConfig) => void,
+    token: vscode.CancellationToken,
 ): Promise<Result<Workspace, string>> {
-    const discoverResult = await discoverTsConfigJsonsAsync(workspaceFolder);
+    const discoverResult = await discoverTsConfigJsonsAsync(workspaceFolder, indexConfig.tsConfigFileNames);
     if (!discoverResult.ok) return discoverResult;
     const tsConfigJsonWithPaths = discoverResult.value;
 
-    const includePattern = new vscode.RelativePattern(workspaceFolder, '**/*.{ts,tsx}');
+    const packages = await workspacePackages.discoverWorkspacePackagesAsync(workspaceFolder);
+    for (const {tsProjectPath, tsConfigJson} of tsConfigJsonWithPaths) {
+        const workspacePackage = workspacePackages.findWorkspacePackage(packages, tsProjectPath);
+        const outDirPath = getAbsoluteOutDir({tsProjectPath, tsConfigJson});
+        if (workspacePackage === null || outDirPath === null) continue;
+        // Without a rootDir, tsc emits relative to the common directory of the sources, which is
+        // usually either the tsconfig's src directory or its own directory. The more specific comes
+        // first, since a pattern like './dist/*.js' matches sources through either.
+        const tsConfigDirPath = pathUtil.dirname(tsProjectPath);
+        workspacePackage.outDirMappings.push({
+            outDirPath,
+            sourceDirPaths: tsConfigJson.rootDir !== null ? [tsConfigJson.rootDir] : [pathUtil.join(tsConfigDirPath, 'src'), tsConfigDirPath],
+        });
+    }
+
+    const includePattern = new vscode.RelativePattern(workspaceFolder, '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}');
     const excludePatterns = tsConfigJsonWithPaths.flatMap(tsConfigJsonWithPath => {
         const folder = getAbsoluteOutDir(tsConfigJsonWithPath);
         return folder === null ? [] : [pathUtil.relative(workspaceFolder.uri.path, folder) + '/**'];
@@ -321,71 +793,521 @@ async function makeWorkspaceAsync(
 
     let uris: Array<vscode.Uri> = [];
     try {
-        uris = await vscode.workspace.findFiles(includePattern, excludePattern);
+        uris = await vscode.workspace.findFiles(includePattern, excludePattern, undefined, token);
     } catch (error) {
         return Result.err(`Error creating cache: ${error}`);
     }
+    if (token.isCancellationRequested) return Result.err(`Indexing of workspace ${workspaceFolder.name} was cancelled`);
 
-    const tsProjectByPath: Map<TsProjectPath, TsProject> = u.map.fromEntries(
-        tsConfigJsonWithPaths.map(({tsProjectPath, tsConfigJson}) => [
+    const packageNames = new Set(packages.map(({name}) => name));
+    const tsProjects: Array<StoredTsProject> = [];
+    for (const {tsProjectPath, tsConfigJson, configFilePaths} of tsConfigJsonWithPaths) {
+        const dependencies = await dependencyModules.readDependencyModulesAsync(
+            pathUtil.dirname(tsProjectPath),
+            workspaceFolder,
+            indexConfig.dependencyAliases,
+            packageNames,
+        );
+        const packageType = await dependencyModules.readPackageTypeAsync(pathUtil.dirname(tsProjectPath), workspaceFolder);
+        tsProjects.push({tsProjectPath, tsConfigJson, configFilePaths, dependencies, packageType, bareImportPaths: {}});
+    }
+    if (token.isCancellationRequested) return Result.err(`Indexing of workspace ${workspaceFolder.name} was cancelled`);
+
+    const workspace = buildWorkspace(workspaceFolder, indexConfig, {
+        tsProjects,
+        packages,
+        tsFilePaths: uris.map(uri => uri.path),
+    });
+
+    // Reading every file takes a while, so let completions work without import counts meanwhile.
+    // It's queued rather than awaited, since this runs from the update queue itself.
+    const storedFileByTsFilePath = new Map((storedWorkspace?.files ?? []).map(storedFile => [storedFile.tsFilePath, storedFile]));
+    u.fireAndForget(() => enqueueUpdateAsync(async () => {
+        for (const uri of uris) {
+            if (token.isCancellationRequested) return;
+            if (!workspace.ownerTsProjectPathByTsFilePath.has(uri.path)) continue;
+            const storedFile = storedFileByTsFilePath.get(uri.path);
+            if (storedFile !== undefined && storedFile.mtimeMs !== null && await getMtimeMsAsync(uri) === storedFile.mtimeMs) {
+                setImportsOfFile(workspace, uri.path, storedFile.importedTsFilePaths, storedFile.mtimeMs);
+            } else {
+                await updateImportsOfFileAsync(workspace, uri);
+            }
+        }
+        onWorkspaceIndexed(workspace, indexConfig);
+    }));
+
+    return Result.ok(workspace);
+}
+
+/**
+ * Rebuilds a workspace as it was stored, without touching the file system.
+ */
+function restoreWorkspace(
+    workspaceFolder: vscode.WorkspaceFolder,
+    indexConfig: IndexConfig,
+    storedWorkspace: StoredWorkspace,
+): Workspace {
+    const workspace = buildWorkspace(workspaceFolder, indexConfig, {
+        ...storedWorkspace,
+        tsFilePaths: storedWorkspace.files.map(({tsFilePath}) => tsFilePath),
+    });
+    for (const {tsFilePath, mtimeMs, importedTsFilePaths} of storedWorkspace.files) {
+        if (mtimeMs !== null) {
+            setImportsOfFile(workspace, tsFilePath, importedTsFilePaths, mtimeMs);
+        }
+    }
+    return workspace;
+}
+
+function toStoredWorkspace(workspace: Workspace): StoredWorkspace {
+    const packageJsonPaths = [
+        workspace.workspaceFolder.uri.path,
+        ...workspace.packages.map(({dirPath}) => dirPath),
+        ...Array.from(workspace.tsProjectByPath.keys(), tsProjectPath => pathUtil.dirname(tsProjectPath)),
+    ].map(dirPath => pathUtil.join(dirPath, 'package.json'));
+
+    return {
+        tsProjects: Array.from(workspace.tsProjectByPath, ([tsProjectPath, tsProject]) => ({
             tsProjectPath,
-            {
-                tsConfigJson,
-                workspaceFolder,
-                modulesForBareImportByQueryFirstChar: new Map(),
-                modulesForRelativeImportByQueryFirstChar: new Map(),
-            },
-        ])
+            tsConfigJson: tsProject.tsConfigJson,
+            configFilePaths: tsProject.configFilePaths,
+            dependencies: listDependencies(tsProject),
+            packageType: tsProject.packageType,
+            bareImportPaths: Object.fromEntries(tsProject.bareImportPathByTsFilePath),
+        })),
+        packages: workspace.packages,
+        files: Array.from(workspace.tsFilePaths, tsFilePath => ({
+            tsFilePath,
+            mtimeMs: workspace.mtimeMsByTsFilePath.get(tsFilePath) ?? null,
+            importedTsFilePaths: workspace.importedTsFilePathsByTsFilePath.get(tsFilePath) ?? [],
+        })),
+        configFilePaths: _.uniq([
+            ...workspace.tsConfigFilePaths,
+            ...packageJsonPaths,
+            pathUtil.join(workspace.workspaceFolder.uri.path, 'pnpm-workspace.yaml'),
+        ]),
+    };
+}
+
+type WorkspaceSources = {
+    tsProjects: Array<StoredTsProject>;
+    packages: Array<WorkspacePackage>;
+    tsFilePaths: Array<TsFilePath>;
+};
+
+/**
+ * Builds the projects' maps from the files of the workspace, leaving the imports of the files to
+ * be filled in.
+ */
+function buildWorkspace(
+    workspaceFolder: vscode.WorkspaceFolder,
+    indexConfig: IndexConfig,
+    {tsProjects, packages, tsFilePaths}: WorkspaceSources,
+): Workspace {
+    const tsProjectByPath: Map<TsProjectPath, TsProject> = u.map.fromEntries(
+        tsProjects.map(storedTsProject => [storedTsProject.tsProjectPath, makeTsProject(workspaceFolder, storedTsProject)]),
     );
+    linkReferencedTsProjects(tsProjectByPath);
+
+    const workspace: Workspace = {
+        workspaceFolder,
+        tsProjectByPath,
+        ownerTsProjectPathByTsFilePath: new Map(),
+        tsFilePaths: new Set(tsFilePaths),
+        barrelDirPaths: new Set(),
+        tsConfigFilePaths: new Set(tsProjects.flatMap(({configFilePaths}) => configFilePaths)),
+        importedTsFilePathsByTsFilePath: new Map(),
+        importCountByTsFilePath: new Map(),
+        mtimeMsByTsFilePath: new Map(),
+        packages,
+        tsFilePathByPackageImportPath: new Map(),
+    };
 
     // Add each file to all projects that can access it via their path mappings
     for (const [tsProjectPath, tsProject] of tsProjectByPath) {
-        for (const uri of uris) {
-            const evalResult = uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri);
-            switch (evalResult.type) {
-                case 'bareImport': {
-                    const {moduleName, importPath} = evalResult;
-                    u.map.getOrCreate(tsProject.modulesForBareImportByQueryFirstChar, u.firstChar(moduleName), () => [])
-                        .push({moduleName, importPath, tsFilePath: uri.path});
-                    break;
-                }
-                case 'relativeImport': {
-                    const {moduleName} = evalResult;
-                    u.map.getOrCreate(tsProject.modulesForRelativeImportByQueryFirstChar, u.firstChar(moduleName), () => [])
-                        .push({moduleName, tsFilePath: uri.path});
-                    break;
-                }
-                case 'importDisallowed': break;
-                default: throw u.impossible(evalResult);
-            }
-        }
+        indexTsProject(workspace, tsProjectPath, tsProject, indexConfig);
     }
 
-    const ownerTsProjectPathByTsFilePath = new Map<TsFilePath, TsProjectPath>();
-    for (const uri of uris) {
-        const ownerTsProjectPath = uriHelpers.findOwnerTsProjectForTsFile(uri, tsProjectByPath.keys());
+    for (const tsFilePath of tsFilePaths) {
+        if (uriHelpers.isIndexFile(tsFilePath, indexConfig.indexFileNames)) {
+            workspace.barrelDirPaths.add(pathUtil.dirname(tsFilePath));
+        }
+        for (const packageImportPath of makePackageImportPathVariants(packages, tsFilePath, indexConfig)) {
+            workspace.tsFilePathByPackageImportPath.set(packageImportPath, tsFilePath);
+        }
+
+        const ownerTsProjectPath = uriHelpers.findOwnerTsProjectForTsFile(workspaceFolder.uri.with({path: tsFilePath}), tsProjectByPath);
         if (ownerTsProjectPath !== null) {
-            ownerTsProjectPathByTsFilePath.set(uri.path, ownerTsProjectPath);
+            workspace.ownerTsProjectPathByTsFilePath.set(tsFilePath, ownerTsProjectPath);
         }
     }
 
-    const workspace: Workspace = {
+    return workspace;
+}
+
+function makeTsProject(
+    workspaceFolder: vscode.WorkspaceFolder,
+    {tsProjectPath, tsConfigJson, configFilePaths, dependencies, packageType, bareImportPaths}: StoredTsProject,
+): TsProject {
+    const dependencyByImportPath = new Map<string, DependencyModule>();
+    for (const dependency of dependencies) {
+        dependencyByImportPath.set(dependency.importPath, dependency);
+        // Built-ins are imported with the 'node:' prefix as well
+        if (dependency.dependencyPath.startsWith('node:')) {
+            dependencyByImportPath.set(dependency.dependencyPath, dependency);
+        }
+    }
+    return {
+        tsConfigJson,
         workspaceFolder,
-        tsProjectByPath,
-        ownerTsProjectPathByTsFilePath,
+        configFilePaths,
+        fileMatcher: projectMembership.makeProjectFileMatcher(tsProjectPath, tsConfigJson),
+        referencedFileMatchers: [],
+        modulesForBareImport: new ModuleSearchIndex(),
+        modulesForRelativeImport: new ModuleSearchIndex(),
+        dependencyByImportPath,
+        packageType,
+        bareImportPathByTsFilePath: new Map(Object.entries(bareImportPaths)),
+        ambientGlobalNames: null,
     };
-    return Result.ok(workspace);
+}
+
+function listDependencies(tsProject: TsProject): Array<DependencyModule> {
+    // Built-ins are in there twice, with and without the 'node:' prefix
+    return _.uniq(Array.from(tsProject.dependencyByImportPath.values()));
+}
+
+// References are by path, so they're linked once all projects are known
+function linkReferencedTsProjects(tsProjectByPath: Map<TsProjectPath, TsProject>): void {
+    for (const tsProject of tsProjectByPath.values()) {
+        tsProject.referencedFileMatchers = tsProject.tsConfigJson.references.flatMap(referencePath => {
+            const referencedTsProject = tsProjectByPath.get(referencePath);
+            if (referencedTsProject === undefined) {
+                console.warn(`Referenced project not found: ${referencePath}`);
+                return [];
+            }
+            return [referencedTsProject.fileMatcher];
+        });
+    }
+}
+
+/**
+ * Fills the project's indexes from scratch with its dependencies and every file of the workspace
+ * that it can import.
+ */
+function indexTsProject(workspace: Workspace, tsProjectPath: TsProjectPath, tsProject: TsProject, indexConfig: IndexConfig): void {
+    tsProject.modulesForBareImport = new ModuleSearchIndex();
+    tsProject.modulesForRelativeImport = new ModuleSearchIndex();
+    for (const {moduleName, importPath, dependencyPath} of listDependencies(tsProject)) {
+        tsProject.modulesForBareImport.add({moduleName, importPath, tsFilePath: dependencyPath, allowsRelativeImport: false});
+    }
+    for (const tsFilePath of workspace.tsFilePaths) {
+        const uri = workspace.workspaceFolder.uri.with({path: tsFilePath});
+        addModuleToTsProject(tsProject, uri, uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri, indexConfig, workspace.packages, workspace.tsFilePaths));
+    }
+}
+
+/**
+ * Reloads the projects whose tsconfig, a file it extends, or the package.json declaring their
+ * dependencies is at one of `changedConfigFilePaths`, adding and removing projects as their
+ * tsconfigs appear and disappear. Only those projects and the projects referencing them are
+ * re-indexed. Returns false if the workspace needs to be indexed from scratch instead, which is
+ * when an outDir or rootDir changes, since those decide which files are indexed at all.
+ */
+async function updateTsProjectsAsync(
+    workspace: Workspace,
+    changedConfigFilePaths: ReadonlySet<string>,
+    indexConfig: IndexConfig,
+): Promise<boolean> {
+    const {workspaceFolder, tsProjectByPath} = workspace;
+    const changedPackageDirPaths = Array.from(changedConfigFilePaths)
+        .filter(path => pathUtil.basename(path) === 'package.json')
+        .map(path => pathUtil.dirname(path));
+
+    const reloadedTsProjectPaths = new Set<TsProjectPath>();
+    for (const [tsProjectPath, tsProject] of tsProjectByPath) {
+        const tsProjectDirPath = pathUtil.dirname(tsProjectPath);
+        if (
+            tsProject.configFilePaths.some(path => changedConfigFilePaths.has(path))
+            || changedPackageDirPaths.some(dirPath => tsProjectDirPath === dirPath || tsProjectDirPath.startsWith(dirPath + '/'))
+        ) {
+            reloadedTsProjectPaths.add(tsProjectPath);
+        }
+    }
+    for (const path of changedConfigFilePaths) {
+        if (isTsConfigFileName(pathUtil.basename(path), indexConfig.tsConfigFileNames) && !path.includes('/node_modules/')) {
+            reloadedTsProjectPaths.add(path);
+        }
+    }
+
+    // Null for the projects whose tsconfig is gone
+    const reloadedTsProjectByPath = new Map<TsProjectPath, TsProject | null>();
+    const packageNames = new Set(workspace.packages.map(({name}) => name));
+    for (const tsProjectPath of reloadedTsProjectPaths) {
+        const loadResult = await tsconfigLoader.loadTsConfigJsonAsync(workspaceFolder.uri.with({path: tsProjectPath}));
+        if (!loadResult.ok) {
+            reloadedTsProjectByPath.set(tsProjectPath, null);
+            continue;
+        }
+        const {tsConfigJson, configFilePaths} = loadResult.value;
+        const dependencies = await dependencyModules.readDependencyModulesAsync(
+            pathUtil.dirname(tsProjectPath),
+            workspaceFolder,
+            indexConfig.dependencyAliases,
+            packageNames,
+        );
+        const packageType = await dependencyModules.readPackageTypeAsync(pathUtil.dirname(tsProjectPath), workspaceFolder);
+        reloadedTsProjectByPath.set(
+            tsProjectPath,
+            makeTsProject(workspaceFolder, {tsProjectPath, tsConfigJson, configFilePaths, dependencies, packageType, bareImportPaths: {}}),
+        );
+    }
+
+    const getOutputDirs = (tsProjectPath: TsProjectPath, tsProject: TsProject | null) => tsProject === null
+        ? [null, null]
+        : [getAbsoluteOutDir({tsProjectPath, tsConfigJson: tsProject.tsConfigJson}), tsProject.tsConfigJson.rootDir];
+    const haveOutputDirsChanged = Array.from(reloadedTsProjectByPath).some(([tsProjectPath, reloadedTsProject]) =>
+        !_.isEqual(getOutputDirs(tsProjectPath, tsProjectByPath.get(tsProjectPath) ?? null), getOutputDirs(tsProjectPath, reloadedTsProject)),
+    );
+    if (haveOutputDirsChanged) return false;
+
+    for (const [tsProjectPath, reloadedTsProject] of reloadedTsProjectByPath) {
+        if (reloadedTsProject === null) {
+            tsProjectByPath.delete(tsProjectPath);
+        } else {
+            tsProjectByPath.set(tsProjectPath, reloadedTsProject);
+        }
+    }
+    workspace.tsConfigFilePaths = new Set(Array.from(tsProjectByPath.values()).flatMap(({configFilePaths}) => configFilePaths));
+    linkReferencedTsProjects(tsProjectByPath);
+
+    for (const [tsProjectPath, tsProject] of tsProjectByPath) {
+        if (
+            reloadedTsProjectByPath.has(tsProjectPath)
+            || tsProject.tsConfigJson.references.some(referencePath => reloadedTsProjectByPath.has(referencePath))
+        ) {
+            indexTsProject(workspace, tsProjectPath, tsProject, indexConfig);
+        }
+    }
+
+    // Files can change owners as projects come and go, or change what they include
+    const newlyOwnedUris: Array<vscode.Uri> = [];
+    for (const tsFilePath of workspace.tsFilePaths) {
+        const uri = workspaceFolder.uri.with({path: tsFilePath});
+        const ownerTsProjectPath = uriHelpers.findOwnerTsProjectForTsFile(uri, tsProjectByPath);
+        if (ownerTsProjectPath === null) {
+            workspace.ownerTsProjectPathByTsFilePath.delete(tsFilePath);
+            removeImportsOfFile(workspace, tsFilePath);
+            continue;
+        }
+        if (!workspace.ownerTsProjectPathByTsFilePath.has(tsFilePath)) {
+            newlyOwnedUris.push(uri);
+        }
+        workspace.ownerTsProjectPathByTsFilePath.set(tsFilePath, ownerTsProjectPath);
+    }
+    for (const uri of newlyOwnedUris) {
+        await updateImportsOfFileAsync(workspace, uri);
+    }
+    return true;
+}
+
+/**
+ * Adds the file to every project that can import it. A file that's indexed already, because both
+ * a rename and the file watcher reported it, only has its imports read again.
+ */
+async function addFileToWorkspaceAsync(workspace: Workspace, uri: vscode.Uri, indexConfig: IndexConfig): Promise<void> {
+    if (workspace.tsFilePaths.has(uri.path)) {
+        if (workspace.ownerTsProjectPathByTsFilePath.has(uri.path)) {
+            await updateImportsOfFileAsync(workspace, uri);
+        }
+        return;
+    }
+    workspace.tsFilePaths.add(uri.path);
+
+    for (const [tsProjectPath, tsProject] of workspace.tsProjectByPath.entries()) {
+        addModuleToTsProject(tsProject, uri, uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri, indexConfig, workspace.packages, workspace.tsFilePaths));
+    }
+
+    if (uriHelpers.isIndexFile(uri.path, indexConfig.indexFileNames)) {
+        workspace.barrelDirPaths.add(pathUtil.dirname(uri.path));
+    }
+    for (const packageImportPath of makePackageImportPathVariants(workspace.packages, uri.path, indexConfig)) {
+        workspace.tsFilePathByPackageImportPath.set(packageImportPath, uri.path);
+    }
+
+    const ownerTsProjectPath = uriHelpers.findOwnerTsProjectForTsFile(uri, workspace.tsProjectByPath);
+    if (ownerTsProjectPath === null) {
+        console.warn(`No TypeScript project found for file: ${uri.path}`);
+        return;
+    }
+    workspace.ownerTsProjectPathByTsFilePath.set(uri.path, ownerTsProjectPath);
+    await updateImportsOfFileAsync(workspace, uri);
+}
+
+function removeFileFromWorkspace(workspace: Workspace, uri: vscode.Uri, indexConfig: IndexConfig): void {
+    if (!workspace.tsFilePaths.has(uri.path)) return;
+
+    // Whether the file was imported bare depends on the other files, which may have changed since it
+    // was added, so it's removed from both indexes of every project
+    const moduleName = uriHelpers.makeModuleName(uri, workspace.workspaceFolder, indexConfig);
+    for (const tsProject of workspace.tsProjectByPath.values()) {
+        tsProject.modulesForBareImport.remove(moduleName, module => module.tsFilePath === uri.path);
+        tsProject.modulesForRelativeImport.remove(moduleName, module => module.tsFilePath === uri.path);
+    }
+
+    for (const tsProject of workspace.tsProjectByPath.values()) {
+        tsProject.bareImportPathByTsFilePath.delete(uri.path);
+    }
+    workspace.ownerTsProjectPathByTsFilePath.delete(uri.path);
+    workspace.tsFilePaths.delete(uri.path);
+    removeImportsOfFile(workspace, uri.path);
+    if (uriHelpers.isIndexFile(uri.path, indexConfig.indexFileNames)) {
+        workspace.barrelDirPaths.delete(pathUtil.dirname(uri.path));
+    }
+    for (const packageImportPath of makePackageImportPathVariants(workspace.packages, uri.path, indexConfig)) {
+        workspace.tsFilePathByPackageImportPath.delete(packageImportPath);
+    }
+}
+
+/**
+ * Removes every file inside of the directory at `dirPath`, returning their paths.
+ */
+function removeDirectoryFromWorkspace(workspace: Workspace, dirPath: string): Array<TsFilePath> {
+    const isInDirectory = (path: string) => path.startsWith(dirPath + '/');
+
+    for (const tsProject of workspace.tsProjectByPath.values()) {
+        tsProject.modulesForBareImport.removeWhere(module => isInDirectory(module.tsFilePath));
+        tsProject.modulesForRelativeImport.removeWhere(module => isInDirectory(module.tsFilePath));
+    }
+    const removedTsFilePaths = Array.from(workspace.tsFilePaths).filter(isInDirectory);
+    for (const tsFilePath of removedTsFilePaths) {
+        for (const tsProject of workspace.tsProjectByPath.values()) {
+            tsProject.bareImportPathByTsFilePath.delete(tsFilePath);
+        }
+        workspace.tsFilePaths.delete(tsFilePath);
+        workspace.ownerTsProjectPathByTsFilePath.delete(tsFilePath);
+        removeImportsOfFile(workspace, tsFilePath);
+    }
+    for (const barrelDirPath of Array.from(workspace.barrelDirPaths)) {
+        if (barrelDirPath === dirPath || isInDirectory(barrelDirPath)) {
+            workspace.barrelDirPaths.delete(barrelDirPath);
+        }
+    }
+    for (const [packageImportPath, tsFilePath] of Array.from(workspace.tsFilePathByPackageImportPath)) {
+        if (isInDirectory(tsFilePath)) {
+            workspace.tsFilePathByPackageImportPath.delete(packageImportPath);
+        }
+    }
+    return removedTsFilePaths;
+}
+
+/**
+ * Evaluates the modules again whose bare import paths the added and removed files may have taken
+ * over or freed up, like generated/foo.ts losing '@app/foo' to a new src/foo.ts under
+ * `"@app/*": ["src/*", "generated/*"]`. Their cached bare import paths are dropped for that.
+ */
+function reevaluateShadowingModules(
+    workspace: Workspace,
+    addedOrRemovedTsFilePaths: ReadonlyArray<TsFilePath>,
+    indexConfig: IndexConfig,
+): void {
+    if (addedOrRemovedTsFilePaths.length === 0) return;
+
+    for (const [tsProjectPath, tsProject] of workspace.tsProjectByPath) {
+        const {tsConfigJson} = tsProject;
+        if (tsConfigJson.baseUrl === null && tsConfigJson.paths === null) continue;
+
+        const importPathExtStyle = uriHelpers.getBareImportPathExtStyle(tsConfigJson, indexConfig);
+        const listCandidates = (tsFilePath: TsFilePath) => pathMappings.listBareImportPathCandidates(
+            tsProjectPath,
+            tsConfigJson,
+            tsFilePath,
+            indexConfig.indexFileNames,
+            importPathExtStyle,
+        );
+        const changedImportPaths = new Set(addedOrRemovedTsFilePaths.flatMap(listCandidates));
+        if (changedImportPaths.size === 0) continue;
+
+        for (const tsFilePath of workspace.tsFilePaths) {
+            if (!listCandidates(tsFilePath).some(importPath => changedImportPaths.has(importPath))) continue;
+            const uri = workspace.workspaceFolder.uri.with({path: tsFilePath});
+            const moduleName = uriHelpers.makeModuleName(uri, workspace.workspaceFolder, indexConfig);
+            tsProject.modulesForBareImport.remove(moduleName, module => module.tsFilePath === tsFilePath);
+            tsProject.modulesForRelativeImport.remove(moduleName, module => module.tsFilePath === tsFilePath);
+            tsProject.bareImportPathByTsFilePath.delete(tsFilePath);
+            addModuleToTsProject(tsProject, uri, uriHelpers.evaluateModuleForTsProject(tsProjectPath, tsProject, uri, indexConfig, workspace.packages, workspace.tsFilePaths));
+        }
+    }
+}
+
+/**
+ * Returns whether the index has files or projects inside of the directory at `dirPath`.
+ */
+function hasIndexedPathsInDirectory(workspace: Workspace, dirPath: string): boolean {
+    const isInDirectory = (path: string) => path.startsWith(dirPath + '/');
+    return u.iter.some(workspace.tsFilePaths, isInDirectory) || u.iter.some(workspace.tsProjectByPath.keys(), isInDirectory);
+}
+
+/**
+ * Splits renames into the deletion of the old path and the creation of the new one, or of every
+ * file under it for a directory, so that a move is handled in one go.
+ */
+async function expandFileEventsAsync(
+    fileEvents: ReadonlyArray<FileEvent>,
+    isIndexedDirectory: (uri: vscode.Uri) => boolean,
+): Promise<Array<FileChange>> {
+    const fileChanges: Array<FileChange> = [];
+    for (const fileEvent of fileEvents) {
+        if (fileEvent.type !== 'renamed') {
+            // The watcher doesn't say what a deleted path was, so go by whether the index has
+            // anything inside of it
+            const isDirectory = fileEvent.type === 'deleted' && isIndexedDirectory(fileEvent.uri);
+            fileChanges.push({type: fileEvent.type, uri: fileEvent.uri, isDirectory});
+            continue;
+        }
+
+        const {oldUri, newUri} = fileEvent;
+        let isDirectory: boolean;
+        try {
+            isDirectory = (await vscode.workspace.fs.stat(newUri)).type === vscode.FileType.Directory;
+        } catch {
+            continue;
+        }
+        fileChanges.push({type: 'deleted', uri: oldUri, isDirectory});
+        if (isDirectory) {
+            const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(newUri, '**/*'), '**/node_modules/**');
+            fileChanges.push(...uris.map(uri => ({type: 'created' as const, uri, isDirectory: false})));
+        } else {
+            fileChanges.push({type: 'created', uri: newUri, isDirectory: false});
+        }
+    }
+    return fileChanges;
+}
+
+// Keeps the last change of each path, in the order the paths last changed
+function coalesceFileChanges(fileChanges: ReadonlyArray<FileChange>): Array<FileChange> {
+    const fileChangeByPath = new Map<string, FileChange>();
+    for (const fileChange of fileChanges) {
+        const previousFileChange = fileChangeByPath.get(fileChange.uri.path);
+        // A file created and then changed within the batch is still new
+        const type = previousFileChange?.type === 'created' && fileChange.type === 'changed' ? 'created' : fileChange.type;
+        fileChangeByPath.delete(fileChange.uri.path);
+        fileChangeByPath.set(fileChange.uri.path, {...fileChange, type});
+    }
+    return Array.from(fileChangeByPath.values());
 }
 
 type TsConfigJsonWithPath = {
     tsProjectPath: TsProjectPath;
     tsConfigJson: TsConfigJson;
+    configFilePaths: Array<string>;
 };
 
 async function discoverTsConfigJsonsAsync(
     workspaceFolder: vscode.WorkspaceFolder,
+    tsConfigFileNames: ReadonlyArray<string>,
 ): Promise<Result<Array<TsConfigJsonWithPath>, string>> {
-    const tsconfigPattern = new vscode.RelativePattern(workspaceFolder, '**/tsconfig.json');
+    const tsconfigPattern = new vscode.RelativePattern(workspaceFolder, `**/{${tsConfigFileNames.join(',')}}`);
     const excludePattern = new vscode.RelativePattern(workspaceFolder, '**/node_modules/**');
 
     let tsconfigUris: Array<vscode.Uri>;
@@ -397,17 +1319,16 @@ async function discoverTsConfigJsonsAsync(
 
     const tsConfigJsonWithPaths: Array<TsConfigJsonWithPath> = [];
     for (const tsConfigUri of tsconfigUris) {
-        let tsConfigDoc: vscode.TextDocument;
-        try {
-            tsConfigDoc = await vscode.workspace.openTextDocument(tsConfigUri);
-        } catch (error) {
-            console.error(`Error reading tsconfig at ${tsConfigUri.path}: ${error}`);
+        const loadResult = await tsconfigLoader.loadTsConfigJsonAsync(tsConfigUri);
+        if (!loadResult.ok) {
+            console.error(loadResult.err);
             continue;
         }
 
         tsConfigJsonWithPaths.push({
-            tsProjectPath: pathUtil.dirname(tsConfigUri.path),
-            tsConfigJson: parseTsConfigJson(tsConfigDoc),
+            tsProjectPath: tsConfigUri.path,
+            tsConfigJson: loadResult.value.tsConfigJson,
+            configFilePaths: loadResult.value.configFilePaths,
         });
     }
 
@@ -423,28 +1344,143 @@ async function discoverTsConfigJsonsAsync(
     );
 }
 
-function parseTsConfigJson(tsconfigDoc: vscode.TextDocument): TsConfigJson {
-    const parseResults = ts.parseConfigFileTextToJson(tsconfigDoc.fileName, tsconfigDoc.getText());
-    const tsconfigObj = parseResults.config;
-
-    let baseUrl: string | null = null;
-    let paths: Record<string, Array<string>> | null = null;
-    let outDir: string | null = null;
-    if ('compilerOptions' in tsconfigObj) {
-        const compilerOptions = tsconfigObj['compilerOptions'];
-
-        if ('baseUrl' in compilerOptions) {
-            baseUrl = compilerOptions['baseUrl'] as string;
-        }
-        if ('paths' in compilerOptions) {
-            paths = compilerOptions['paths'] as Record<string, Array<string>>;
+function addModuleToTsProject(
+    tsProject: TsProject,
+    uri: vscode.Uri,
+    evalResult: uriHelpers.ModuleEvaluationForTsProject,
+): void {
+    switch (evalResult.type) {
+        case 'bareImport': {
+            const {moduleName, importPath, allowsRelativeImport} = evalResult;
+            tsProject.modulesForBareImport.add({moduleName, importPath, tsFilePath: uri.path, allowsRelativeImport});
+            break;
         }
-        if ('outDir' in compilerOptions) {
-            outDir = compilerOptions['outDir'] as string;
+        case 'relativeImport': {
+            const {moduleName} = evalResult;
+            tsProject.modulesForRelativeImport.add({moduleName, tsFilePath: uri.path});
+            break;
         }
+        case 'importDisallowed': break;
+        default: throw u.impossible(evalResult);
     }
+}
+
+/**
+ * Resolves an import path written in `tsFilePath` to the indexed file it refers to, using
+ * TypeScript's module resolution against the owner project's compilerOptions.
+ */
+function resolveImportPathInWorkspace(workspace: Workspace, tsFilePath: TsFilePath, importPath: string): TsFilePath | null {
+    // TypeScript would find other packages through node_modules, which isn't indexed
+    const packageTsFilePath = workspace.tsFilePathByPackageImportPath.get(importPath);
+    if (packageTsFilePath !== undefined) return packageTsFilePath;
+
+    const tsProjectPath = workspace.ownerTsProjectPathByTsFilePath.get(tsFilePath) ?? null;
+    if (tsProjectPath === null) return null;
+    const tsProject = u.map.getOrThrow(workspace.tsProjectByPath, tsProjectPath);
+
+    const dependency = tsProject.dependencyByImportPath.get(importPath);
+    if (dependency !== undefined) return dependency.dependencyPath;
 
-    return {baseUrl, paths, outDir};
+    // Only indexed files can be offered as completions, so there's no need to hit the disk
+    return pathMappings.resolveImportPath(
+        importPath,
+        tsFilePath,
+        tsProjectPath,
+        tsProject.tsConfigJson,
+        path => workspace.ownerTsProjectPathByTsFilePath.has(path),
+    );
+}
+
+function findDependency(workspace: Workspace, tsFilePath: TsFilePath, importPath: string): DependencyModule | null {
+    const tsProjectPath = workspace.ownerTsProjectPathByTsFilePath.get(tsFilePath);
+    if (tsProjectPath === undefined) return null;
+    return workspace.tsProjectByPath.get(tsProjectPath)?.dependencyByImportPath.get(importPath) ?? null;
+}
+
+/**
+ * Reads the file at `uri` and replaces what it contributed to the workspace's import counts.
+ */
+async function updateImportsOfFileAsync(workspace: Workspace, uri: vscode.Uri): Promise<void> {
+    let text: string;
+    let mtimeMs: number;
+    try {
+        mtimeMs = (await vscode.workspace.fs.stat(uri)).mtime;
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (error) {
+        console.warn(`Error reading ${uri.path}: ${error}`);
+        return;
+    }
+
+    // Only the import specifiers are needed, which preProcessFile finds without a full parse
+    const importedTsFilePaths = _.uniq(
+        ts.preProcessFile(text, true, false).importedFiles.flatMap(({fileName}) => {
+            const importedTsFilePath = resolveImportPathInWorkspace(workspace, uri.path, fileName);
+            return importedTsFilePath === null ? [] : [importedTsFilePath];
+        }),
+    );
+
+    setImportsOfFile(workspace, uri.path, importedTsFilePaths, mtimeMs);
+}
+
+function setImportsOfFile(
+    workspace: Workspace,
+    tsFilePath: TsFilePath,
+    importedTsFilePaths: Array<TsFilePath>,
+    mtimeMs: number,
+): void {
+    removeImportsOfFile(workspace, tsFilePath);
+    workspace.importedTsFilePathsByTsFilePath.set(tsFilePath, importedTsFilePaths);
+    workspace.mtimeMsByTsFilePath.set(tsFilePath, mtimeMs);
+    for (const importedTsFilePath of importedTsFilePaths) {
+        workspace.importCountByTsFilePath.set(
+            importedTsFilePath,
+            (workspace.importCountByTsFilePath.get(importedTsFilePath) ?? 0) + 1,
+        );
+    }
+}
+
+async function getMtimeMsAsync(uri: vscode.Uri): Promise<number | null> {
+    try {
+        return (await vscode.workspace.fs.stat(uri)).mtime;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Returns every path another package could import the module at `tsFilePath` by, whichever import
+ * path extension style the importing project uses.
+ */
+function makePackageImportPathVariants(
+    packages: ReadonlyArray<WorkspacePackage>,
+    tsFilePath: TsFilePath,
+    indexConfig: IndexConfig,
+): Array<string> {
+    const workspacePackage = workspacePackages.findWorkspacePackage(packages, tsFilePath);
+    if (workspacePackage === null) return [];
+    const importPathExtStyles: Array<ImportPathExtStyle> = ['none', 'js', 'ts'];
+    return _.uniq(importPathExtStyles.flatMap(importPathExtStyle => {
+        const packageImportPath = workspacePackages.makePackageImportPath(
+            workspacePackage,
+            tsFilePath,
+            indexConfig.indexFileNames,
+            importPathExtStyle,
+        );
+        return packageImportPath === null ? [] : [packageImportPath];
+    }));
+}
+
+function removeImportsOfFile(workspace: Workspace, tsFilePath: TsFilePath): void {
+    for (const importedTsFilePath of workspace.importedTsFilePathsByTsFilePath.get(tsFilePath) ?? []) {
+        const count = (workspace.importCountByTsFilePath.get(importedTsFilePath) ?? 0) - 1;
+        if (count > 0) {
+            workspace.importCountByTsFilePath.set(importedTsFilePath, count);
+        } else {
+            workspace.importCountByTsFilePath.delete(importedTsFilePath);
+        }
+    }
+    workspace.importedTsFilePathsByTsFilePath.delete(tsFilePath);
+    workspace.mtimeMsByTsFilePath.delete(tsFilePath);
 }
 
 function isFileInOutDir(uri: vscode.Uri, tsProjectByPath: Map<TsProjectPath, TsProject>): boolean {
@@ -454,12 +1490,40 @@ function isFileInOutDir(uri: vscode.Uri, tsProjectByPath: Map<TsProjectPath, TsP
     });
 }
 
-function getAbsoluteOutDir({tsProjectPath, tsConfigJson}: TsConfigJsonWithPath): string | null {
+function getAbsoluteOutDir({tsProjectPath, tsConfigJson}: Pick<TsConfigJsonWithPath, 'tsProjectPath' | 'tsConfigJson'>): string | null {
     if (tsConfigJson.outDir === null) return null;
 
     return pathUtil.isAbsolute(tsConfigJson.outDir)
         ? tsConfigJson.outDir
-        : pathUtil.resolve(tsProjectPath, tsConfigJson.outDir);
+        : pathUtil.resolve(pathUtil.dirname(tsProjectPath), tsConfigJson.outDir);
+}
+
+/**
+ * Returns whether `uri` decides which packages the workspace has, which changes how modules are
+ * imported across all projects.
+ */
+function isWorkspacePackagesManifest(workspace: Workspace, uri: vscode.Uri): boolean {
+    const dirPath = pathUtil.dirname(uri.path);
+    switch (pathUtil.basename(uri.path)) {
+        case 'pnpm-workspace.yaml': return dirPath === workspace.workspaceFolder.uri.path;
+        case 'package.json': return dirPath === workspace.workspaceFolder.uri.path
+            || workspace.packages.some(workspacePackage => workspacePackage.dirPath === dirPath);
+        default: return false;
+    }
+}
+
+function isPackageManifest(workspace: Workspace, uri: vscode.Uri): boolean {
+    const dirPath = pathUtil.dirname(uri.path);
+    switch (pathUtil.basename(uri.path)) {
+        case 'pnpm-workspace.yaml': return dirPath === workspace.workspaceFolder.uri.path;
+        // Any package.json can declare the dependencies of a project
+        case 'package.json': return !uri.path.includes('/node_modules/');
+        default: return false;
+    }
+}
+
+function isTsConfigFileName(fileName: string, tsConfigFileNames: ReadonlyArray<string>): boolean {
+    return tsConfigFileNames.some(pattern => u.globToRegExp(pattern).test(fileName));
 }
 
 function getWorkspaceFolderFromUri(uri: vscode.Uri): vscode.WorkspaceFolder | null {
@@ -469,7 +1533,3 @@ function getWorkspaceFolderFromUri(uri: vscode.Uri): vscode.WorkspaceFolder | nu
     }
     return workspaceFolder;
 }
-
-function isTsFile(uri: vscode.Uri): boolean {
-    return uri.path.endsWith('.ts') || uri.path.endsWith('.tsx');
-}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import {DocumentImports, ImportDeclarationInfo, makeSingleFileChecker} from './document_imports';
+
+/**
+ * Returns the edits that rename the namespace that `importDeclaration` binds to `newName`, along
+ * with every reference to it. Shorthand properties and exports keep the name they had before, so
+ * nothing changes for the code outside of the document.
+ */
+export function makeNamespaceRenameEdits(
+    documentImports: DocumentImports,
+    importDeclaration: ImportDeclarationInfo,
+    newName: string,
+): Array<vscode.TextEdit> {
+    const {doc, sourceFile} = documentImports;
+    const binding = getNamespaceBinding(importDeclaration);
+    if (binding === null) return [];
+
+    const checker = makeSingleFileChecker(sourceFile);
+    const namespaceSymbol = checker.getSymbolAtLocation(binding);
+    if (namespaceSymbol === undefined) return [];
+
+    const edits: Array<vscode.TextEdit> = [];
+    const replace = (identifier: ts.Identifier, newText: string) => {
+        const range = new vscode.Range(doc.positionAt(identifier.getStart(sourceFile)), doc.positionAt(identifier.getEnd()));
+        edits.push(vscode.TextEdit.replace(range, newText));
+    };
+    visit(sourceFile);
+    return edits;
+
+    function visit(node: ts.Node): void {
+        if (ts.isIdentifier(node)) {
+            visitIdentifier(node);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    }
+
+    function visitIdentifier(identifier: ts.Identifier): void {
+        const parent = identifier.parent;
+        if (ts.isExportSpecifier(parent)) {
+            // In `export {fooBar as x}`, only `fooBar` refers to the namespace
+            if (identifier !== (parent.propertyName ?? parent.name)) return;
+            if (checker.getExportSpecifierLocalTargetSymbol(parent) !== namespaceSymbol) return;
+            replace(identifier, parent.propertyName === undefined ? `${newName} as ${identifier.text}` : newName);
+            return;
+        }
+
+        const symbol = ts.isShorthandPropertyAssignment(parent)
+            ? checker.getShorthandAssignmentValueSymbol(parent)
+            : checker.getSymbolAtLocation(identifier);
+        if (symbol !== namespaceSymbol) return;
+        replace(identifier, ts.isShorthandPropertyAssignment(parent) ? `${identifier.text}: ${newName}` : newName);
+    }
+}
+
+/**
+ * Collects every name used anywhere in the file, including in inner scopes, which a new namespace
+ * name must stay clear of so that no reference ends up shadowed.
+ */
+export function collectIdentifierNames({sourceFile}: DocumentImports): Set<string> {
+    const names = new Set<string>();
+    visit(sourceFile);
+    return names;
+
+    function visit(node: ts.Node): void {
+        if (ts.isIdentifier(node)) {
+            names.add(node.text);
+        }
+        ts.forEachChild(node, visit);
+    }
+}
+
+function getNamespaceBinding({node}: ImportDeclarationInfo): ts.Identifier | null {
+    if (ts.isImportEqualsDeclaration(node)) return node.name;
+    if (ts.isVariableStatement(node)) {
+        const {name} = node.declarationList.declarations[0];
+        return ts.isIdentifier(name) ? name : null;
+    }
+    const namedBindings = node.importClause?.namedBindings;
+    return namedBindings !== undefined && ts.isNamespaceImport(namedBindings) ? namedBindings.name : null;
+}
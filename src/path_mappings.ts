@@ -0,0 +1,181 @@
+import * as pathUtil from 'path';
+import * as ts from 'typescript';
+import * as _ from 'lodash';
+import * as u from './u';
+import * as uriHelpers from './uri_helpers';
+import {ImportPathExtStyle} from './uri_helpers';
+import {TsConfigJson, TsFilePath, TsProjectPath} from './namespace_import_service';
+
+/**
+ * Returns the shortest bare import path, like '@app/ui/button', that the project's `paths` map to
+ * the module at `tsFilePath`, or else its path relative to `baseUrl`, or null if there's neither.
+ * Every path is checked against TypeScript's own resolution, so a longer pattern, an earlier
+ * fallback or a file with the same name taking precedence never leads elsewhere.
+ */
+export function makeBareImportPath(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    tsFilePath: TsFilePath,
+    tsFilePaths: ReadonlySet<TsFilePath>,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): string | null {
+    const resolvesToModule = (importPath: string) =>
+        resolveImportPath(importPath, tsProjectPath, tsProjectPath, tsConfigJson, path => tsFilePaths.has(path)) === tsFilePath;
+
+    const pathsImportPaths = listPathsImportPaths(tsProjectPath, tsConfigJson, tsFilePath, indexFileNames, importPathExtStyle)
+        .filter(resolvesToModule);
+    if (pathsImportPaths.length > 0) {
+        return _.minBy(pathsImportPaths, importPath => importPath.length) ?? null;
+    }
+
+    const {baseUrl} = tsConfigJson;
+    if (baseUrl !== null && tsFilePath.startsWith(baseUrl + '/')) {
+        const importPath = uriHelpers.toImportPath(pathUtil.relative(baseUrl, tsFilePath), indexFileNames, importPathExtStyle);
+        if (resolvesToModule(importPath)) return importPath;
+    }
+    return null;
+}
+
+/**
+ * Lists the bare import paths that `paths` or `baseUrl` could give the module at `tsFilePath`,
+ * before checking which file they resolve to. A file being added or removed can only change the
+ * bare import path of a module that shares one of these with it.
+ */
+export function listBareImportPathCandidates(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    tsFilePath: TsFilePath,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): Array<string> {
+    const importPaths = listPathsImportPaths(tsProjectPath, tsConfigJson, tsFilePath, indexFileNames, importPathExtStyle);
+    const {baseUrl} = tsConfigJson;
+    if (baseUrl !== null && tsFilePath.startsWith(baseUrl + '/')) {
+        importPaths.push(uriHelpers.toImportPath(pathUtil.relative(baseUrl, tsFilePath), indexFileNames, importPathExtStyle));
+    }
+    return importPaths;
+}
+
+/**
+ * Returns the import path of the module at `tsFilePath` relative to `fromFilePath` as if the
+ * project's `rootDirs` were merged into one directory, or null if they aren't in two of them or
+ * TypeScript would resolve that path to a different file.
+ */
+export function makeRootDirsImportPath(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    fromFilePath: TsFilePath,
+    tsFilePath: TsFilePath,
+    tsFilePaths: ReadonlySet<TsFilePath>,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): string | null {
+    if (tsConfigJson.rootDirs === null) return null;
+
+    const fromRootDir = findRootDir(tsConfigJson.rootDirs, fromFilePath);
+    const toRootDir = findRootDir(tsConfigJson.rootDirs, tsFilePath);
+    if (fromRootDir === null || toRootDir === null || fromRootDir === toRootDir) return null;
+
+    // Both paths relative to the merged directory, which is as good as any to resolve against
+    const virtualFromDirPath = pathUtil.dirname(pathUtil.join(toRootDir, pathUtil.relative(fromRootDir, fromFilePath)));
+    const importPath = uriHelpers.makeRelativeImportPath(virtualFromDirPath, tsFilePath, indexFileNames, importPathExtStyle);
+    const resolvedTsFilePath = resolveImportPath(importPath, fromFilePath, tsProjectPath, tsConfigJson, path => tsFilePaths.has(path));
+    return resolvedTsFilePath === tsFilePath ? importPath : null;
+}
+
+/**
+ * Resolves `importPath` written in the file at `containingFilePath` like TypeScript does with the
+ * project's compilerOptions, looking only at the files that `fileExists` knows of.
+ */
+export function resolveImportPath(
+    importPath: string,
+    containingFilePath: string,
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    fileExists: (path: string) => boolean,
+): TsFilePath | null {
+    const host: ts.ModuleResolutionHost = {
+        fileExists,
+        readFile: () => undefined,
+    };
+    const {resolvedModule} = ts.resolveModuleName(
+        importPath,
+        containingFilePath,
+        makeCompilerOptionsForResolution(tsProjectPath, tsConfigJson),
+        host,
+    );
+    return resolvedModule?.resolvedFileName ?? null;
+}
+
+function makeCompilerOptionsForResolution(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+): ts.CompilerOptions {
+    return {
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        allowJs: true,
+        // Import paths with a .ts extension resolve either way, only the diagnostic depends on it
+        allowImportingTsExtensions: true,
+        baseUrl: tsConfigJson.baseUrl ?? undefined,
+        paths: tsConfigJson.paths ?? undefined,
+        // Without a baseUrl, TypeScript resolves `paths` relative to the tsconfig's directory
+        pathsBasePath: pathUtil.dirname(tsProjectPath),
+        rootDirs: tsConfigJson.rootDirs ?? undefined,
+    };
+}
+
+/**
+ * Lists the import paths that each `paths` pattern and each of its fallback mappings would map to
+ * the module, whether or not another pattern or mapping gets to it first.
+ */
+function listPathsImportPaths(
+    tsProjectPath: TsProjectPath,
+    tsConfigJson: TsConfigJson,
+    tsFilePath: TsFilePath,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): Array<string> {
+    if (tsConfigJson.paths === null) return [];
+    // Mappings are relative to baseUrl, or absolute already without one
+    const basePath = tsConfigJson.baseUrl ?? pathUtil.dirname(tsProjectPath);
+    const tsFilePathWithoutExt = uriHelpers.pathWithoutModuleFileExt(tsFilePath);
+
+    return Object.entries(tsConfigJson.paths).flatMap(([pattern, mappings]) => mappings.flatMap(mapping => {
+        const mappingPath = pathUtil.resolve(basePath, mapping);
+
+        // Exact patterns are used as they are, when they point at the module or its directory
+        if (!pattern.includes('*')) {
+            const pointsAtModule = uriHelpers.pathWithoutModuleFileExt(mappingPath) === tsFilePathWithoutExt
+                || (uriHelpers.isIndexFile(tsFilePath, indexFileNames) && mappingPath === pathUtil.dirname(tsFilePath));
+            return pointsAtModule ? [pattern] : [];
+        }
+        if (!mappingPath.includes('*')) return [];
+
+        const [patternPrefix, patternSuffix] = u.splitAtFirst(pattern, '*');
+        const [mappingPrefix, mappingSuffix] = u.splitAtFirst(mappingPath, '*');
+        // Like "@app/*": ["src/*"], where the `*` stands for the file's whole path inside of the
+        // directory and the import path ends the way the project wants
+        if (patternSuffix === '' && mappingSuffix === '') {
+            if (!tsFilePath.startsWith(mappingPrefix)) return [];
+            const star = tsFilePath.slice(mappingPrefix.length);
+            return [patternPrefix + uriHelpers.toImportPath(star, indexFileNames, importPathExtStyle)];
+        }
+
+        // Like "@packages/*": ["packages/*/src/index"], where the mapping decides how the path ends
+        const path = uriHelpers.getModuleFileExt(mappingSuffix) === '' ? tsFilePathWithoutExt : tsFilePath;
+        if (!path.startsWith(mappingPrefix) || !path.endsWith(mappingSuffix)) return [];
+        if (path.length < mappingPrefix.length + mappingSuffix.length) return [];
+        const star = path.slice(mappingPrefix.length, path.length - mappingSuffix.length);
+        return [patternPrefix + star + patternSuffix];
+    }));
+}
+
+/**
+ * Returns the innermost of `rootDirs` that `path` is inside of.
+ */
+function findRootDir(rootDirs: ReadonlyArray<string>, path: string): string | null {
+    const containing = rootDirs.filter(rootDir => path.startsWith(rootDir + '/'));
+    if (containing.length === 0) return null;
+    return u.max(containing, u.cmp.transform(rootDir => rootDir.length, u.cmp.number));
+}
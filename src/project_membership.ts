@@ -0,0 +1,57 @@
+import * as pathUtil from 'path';
+import * as u from './u';
+import * as uriHelpers from './uri_helpers';
+import {TsConfigJson} from './namespace_import_service';
+
+/**
+ * Decides which files belong to a project from its `files`, `include` and `exclude`, the way tsc
+ * expands them.
+ */
+export type ProjectFileMatcher = {
+    allowJs: boolean;
+    files: Set<string>;
+    include: Array<RegExp>;
+    exclude: Array<RegExp>;
+};
+
+const defaultExcludedDirNames = ['node_modules', 'bower_components', 'jspm_packages'];
+
+export function makeProjectFileMatcher(tsConfigPath: string, tsConfigJson: TsConfigJson): ProjectFileMatcher {
+    const tsConfigDirPath = pathUtil.dirname(tsConfigPath);
+
+    // Without `files` or `include`, tsc includes everything under the tsconfig's directory
+    let includePatterns = tsConfigJson.include;
+    if (includePatterns === null) {
+        includePatterns = tsConfigJson.files === null ? [pathUtil.join(tsConfigDirPath, '**/*')] : [];
+    }
+
+    let excludePatterns = tsConfigJson.exclude;
+    if (excludePatterns === null) {
+        excludePatterns = defaultExcludedDirNames.map(dirName => pathUtil.join(tsConfigDirPath, dirName));
+        if (tsConfigJson.outDir !== null) {
+            excludePatterns.push(tsConfigJson.outDir);
+        }
+    }
+
+    return {
+        allowJs: tsConfigJson.allowJs,
+        files: new Set(tsConfigJson.files ?? []),
+        include: includePatterns.map(pattern => u.globToRegExp(isDirectoryPattern(pattern) ? `${pattern}/**/*` : pattern)),
+        // Excluding a path excludes everything below it as well
+        exclude: excludePatterns.map(pattern => u.globToRegExp(`${pattern}{,/**/*}`)),
+    };
+}
+
+export function isProjectFile(matcher: ProjectFileMatcher, path: string): boolean {
+    if (matcher.files.has(path)) return true;
+    if (!matcher.allowJs && uriHelpers.isJsModuleFile(path)) return false;
+    return matcher.include.some(regExp => regExp.test(path)) && !matcher.exclude.some(regExp => regExp.test(path));
+}
+
+/**
+ * An include pattern whose last segment has neither a wildcard nor an extension names a directory.
+ */
+function isDirectoryPattern(pattern: string): boolean {
+    const lastSegment = pathUtil.basename(pattern);
+    return !lastSegment.includes('*') && !lastSegment.includes('?') && pathUtil.extname(lastSegment) === '';
+}
@@ -0,0 +1,29 @@
+import * as ts from 'typescript';
+import {describe, expect, it} from 'vitest';
+import * as completionPosition from '../completion_position';
+
+// The cursor is where `|` is
+function classify(textWithCursor: string): completionPosition.CompletionPosition {
+    const offset = textWithCursor.indexOf('|');
+    const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+    const sourceFile = ts.createSourceFile('/ws/src/current.tsx', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    return completionPosition.classifyCompletionPosition(sourceFile, offset, ['gql']);
+}
+
+describe('classifyCompletionPosition', () => {
+    it('offers namespaces in expressions and types', () => {
+        expect(classify('const x = fooB|')).toEqual({type: 'namespace'});
+        expect(classify('let x: fooB|')).toEqual({type: 'namespace'});
+    });
+
+    it('offers members after a dot', () => {
+        expect(classify('fooBar.ba|')).toEqual({type: 'member', namespaceName: 'fooBar'});
+    });
+
+    it('offers nothing in strings, comments, declaration names and suppressed templates', () => {
+        expect(classify("const x = 'fooB|'")).toEqual({type: 'none'});
+        expect(classify('// fooB|')).toEqual({type: 'none'});
+        expect(classify('const fooB| = 1')).toEqual({type: 'none'});
+        expect(classify('const q = gql`query { ${fooB|} }`')).toEqual({type: 'none'});
+    });
+});
@@ -0,0 +1,65 @@
+import {describe, expect, it} from 'vitest';
+import * as documentImports from '../document_imports';
+import {applyTextEdits, makeTextDocument} from './test_helpers';
+
+function insertImport(text: string, importPath: string): string {
+    const imports = documentImports.parseDocumentImports(makeTextDocument(text));
+    const edit = documentImports.makeImportInsertEdit(imports, importPath, `import * as x from '${importPath}';\n`);
+    return applyTextEdits(text, [edit]);
+}
+
+describe('makeImportInsertEdit', () => {
+    it('inserts in sorted order', () => {
+        expect(insertImport("import * as a from 'a';\nimport * as c from 'c';\n\nfoo();\n", 'b')).toBe(
+            "import * as a from 'a';\nimport * as x from 'b';\nimport * as c from 'c';\n\nfoo();\n",
+        );
+    });
+
+    it('inserts below the header of a file without imports', () => {
+        expect(insertImport("#!/usr/bin/env node\n'use strict';\nfoo();\n", './b')).toBe(
+            "#!/usr/bin/env node\n'use strict';\nimport * as x from './b';\n\nfoo();\n",
+        );
+    });
+
+    it('inserts bare imports into the group of bare imports', () => {
+        expect(insertImport("import 'a';\nimport 'c';\n\nimport './z';\n", 'lodash')).toBe(
+            "import 'a';\nimport 'c';\nimport * as x from 'lodash';\n\nimport './z';\n",
+        );
+    });
+
+    it('finds the group of the same kind whatever order the groups are in', () => {
+        expect(insertImport("import './z';\n\nimport 'a';\nimport 'c';\n", 'lodash')).toBe(
+            "import './z';\n\nimport 'a';\nimport 'c';\nimport * as x from 'lodash';\n",
+        );
+        expect(insertImport("import './z';\n\nimport 'a';\nimport 'c';\n", './b')).toBe(
+            "import * as x from './b';\nimport './z';\n\nimport 'a';\nimport 'c';\n",
+        );
+    });
+
+    it('inserts above the comments attached to the following import', () => {
+        expect(insertImport("import * as a from 'a';\n// eslint-disable-next-line\nimport * as c from 'c';\n", 'b')).toBe(
+            "import * as a from 'a';\nimport * as x from 'b';\n// eslint-disable-next-line\nimport * as c from 'c';\n",
+        );
+        expect(insertImport("import * as a from 'a'; // a\nimport * as c from 'c';\n", 'b')).toBe(
+            "import * as a from 'a'; // a\nimport * as x from 'b';\nimport * as c from 'c';\n",
+        );
+    });
+
+    it('keeps header comments above the first import', () => {
+        expect(insertImport("// Copyright\n\n/** Docs */\nimport * as c from 'c';\n", 'b')).toBe(
+            "// Copyright\n\nimport * as x from 'b';\n/** Docs */\nimport * as c from 'c';\n",
+        );
+    });
+
+    it('puts imports of a kind the file has none of on the usual side', () => {
+        expect(insertImport("import 'a';\n", './b')).toBe("import 'a';\nimport * as x from './b';\n");
+        expect(insertImport("import './a';\n", 'b')).toBe("import * as x from 'b';\nimport './a';\n");
+    });
+});
+
+describe('compareModuleSpecifiers', () => {
+    it('orders bare before relative, then case-insensitively', () => {
+        const specifiers = ['./b', 'B', 'a', '../c', 'b'];
+        expect(specifiers.sort(documentImports.compareModuleSpecifiers)).toEqual(['a', 'B', 'b', '../c', './b']);
+    });
+});
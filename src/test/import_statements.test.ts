@@ -0,0 +1,34 @@
+import {describe, expect, it} from 'vitest';
+import * as documentImports from '../document_imports';
+import * as importStatements from '../import_statements';
+import {makeTextDocument} from './test_helpers';
+
+function inferFormat(text: string, isCommonJsModule = false, languageId = 'typescript'): importStatements.ImportStatementFormat {
+    const imports = documentImports.parseDocumentImports(makeTextDocument(text, '/ws/src/current.ts', languageId));
+    return importStatements.inferImportStatementFormat(imports, {importStatementStyle: 'auto', quoteStyle: 'auto'}, isCommonJsModule);
+}
+
+describe('inferImportStatementFormat', () => {
+    it('matches the style, quotes and semicolons of the existing imports', () => {
+        expect(inferFormat('import x = require("x")\n')).toEqual({style: 'import-equals', quoteStyle: 'double', hasSemicolon: false});
+        expect(inferFormat("const x = require('x');\n", false, 'javascript')).toEqual({style: 'require', quoteStyle: 'single', hasSemicolon: true});
+    });
+
+    it('picks the statement for the module system of a file without imports', () => {
+        expect(inferFormat('foo()\n').style).toBe('import');
+        expect(inferFormat('foo()\n', true).style).toBe('import-equals');
+        expect(inferFormat('foo()\n', true, 'javascript').style).toBe('require');
+    });
+});
+
+describe('makeImportStatement', () => {
+    it('writes each style', () => {
+        const format = {quoteStyle: 'single', hasSemicolon: true} as const;
+        expect(importStatements.makeImportStatement({...format, style: 'import'}, 'fooBar', './foo_bar', true))
+            .toBe("import type * as fooBar from './foo_bar';\n");
+        expect(importStatements.makeImportStatement({...format, style: 'import-equals'}, 'fooBar', './foo_bar', false))
+            .toBe("import fooBar = require('./foo_bar');\n");
+        expect(importStatements.makeImportStatement({...format, style: 'require', hasSemicolon: false}, 'fooBar', './foo_bar', true))
+            .toBe("const fooBar = require('./foo_bar')\n");
+    });
+});
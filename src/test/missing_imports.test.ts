@@ -0,0 +1,45 @@
+import * as pathUtil from 'path';
+import {describe, expect, it} from 'vitest';
+import * as ambientGlobals from '../ambient_globals';
+import * as documentImports from '../document_imports';
+import * as missingImports from '../missing_imports';
+import {makeTextDocument, makeTsConfigJson} from './test_helpers';
+
+// This repo's own tsconfig, with the TypeScript and type packages it has installed
+const tsProjectPath = pathUtil.resolve(__dirname, '../../tsconfig.json');
+const libDirPath = pathUtil.resolve(__dirname, '../../node_modules/typescript/lib');
+
+describe('listAmbientGlobalNames', () => {
+    it('finds the globals of the lib and types the project uses', () => {
+        const tsConfigJson = makeTsConfigJson({target: 'es2020', lib: ['es2020'], types: ['node', 'vitest/globals']});
+        const names = ambientGlobals.listAmbientGlobalNames(tsProjectPath, tsConfigJson, libDirPath);
+        for (const name of ['Math', 'Promise', 'process', 'NodeJS', 'describe', 'expect', 'arguments']) {
+            expect(names).toContain(name);
+        }
+        expect(names).not.toContain('document');
+    });
+
+    it('leaves out the globals of types the project doesn\'t use', () => {
+        const tsConfigJson = makeTsConfigJson({lib: ['es2020', 'dom'], types: []});
+        const names = ambientGlobals.listAmbientGlobalNames(tsProjectPath, tsConfigJson, libDirPath);
+        expect(names).toContain('document');
+        expect(names).not.toContain('describe');
+        expect(names).not.toContain('process');
+    });
+});
+
+describe('findMissingNamespaceNames', () => {
+    it('finds the namespaces that nothing declares, imports or has globally', () => {
+        const text = [
+            "import * as fooBar from './foo_bar';",
+            'const local = {a: 1};',
+            'function f(this: void) { return arguments.length; }',
+            'fooBar.a(local.a, bazQux.b, Math.max(1, 2), describe.skip);',
+            'let x: Quux.Type;',
+            '',
+        ].join('\n');
+        const imports = documentImports.parseDocumentImports(makeTextDocument(text));
+        const names = missingImports.findMissingNamespaceNames(imports, new Set(['Math', 'arguments', 'describe']));
+        expect(Array.from(names).sort()).toEqual(['Quux', 'bazQux']);
+    });
+});
@@ -0,0 +1,49 @@
+import {describe, expect, it} from 'vitest';
+import * as moduleRanking from '../module_ranking';
+import {ModuleForCompletion} from '../namespace_import_service';
+
+function makeModule(tsFilePath: string, overrides: Partial<ModuleForCompletion> = {}): ModuleForCompletion {
+    return {
+        moduleName: 'utils',
+        importPath: tsFilePath,
+        tsFilePath,
+        isDependency: false,
+        matchScore: 0,
+        isSameProject: true,
+        workspaceImportCount: 0,
+        ...overrides,
+    };
+}
+
+function rank(modules: ReadonlyArray<ModuleForCompletion>, context: Partial<moduleRanking.RankingContext> = {}): Array<string> {
+    return moduleRanking.rankModulesForCompletion(modules, {
+        currentTsFilePath: '/ws/src/server/handler.ts',
+        boundNames: new Set(),
+        getUsage: () => null,
+        nowMs: 0,
+        ...context,
+    }).map(({module}) => module.tsFilePath);
+}
+
+describe('rankModulesForCompletion', () => {
+    it('prefers modules closer to the current file', () => {
+        expect(rank([makeModule('/ws/src/client/utils.ts'), makeModule('/ws/src/server/utils.ts')]))
+            .toEqual(['/ws/src/server/utils.ts', '/ws/src/client/utils.ts']);
+    });
+
+    it('prefers better name matches over proximity', () => {
+        expect(rank([makeModule('/ws/src/server/utils.ts', {matchScore: 2}), makeModule('/ws/lib/utils.ts')]))
+            .toEqual(['/ws/lib/utils.ts', '/ws/src/server/utils.ts']);
+    });
+
+    it('prefers modules the user has imported recently', () => {
+        const getUsage = (tsFilePath: string) => tsFilePath === '/ws/lib/client/utils.ts' ? {count: 5, lastUsedMs: 0} : null;
+        expect(rank([makeModule('/ws/lib/server/utils.ts'), makeModule('/ws/lib/client/utils.ts')], {getUsage}))
+            .toEqual(['/ws/lib/client/utils.ts', '/ws/lib/server/utils.ts']);
+    });
+
+    it('puts modules whose name is taken in the file last', () => {
+        const modules = [makeModule('/ws/src/server/utils.ts'), makeModule('/ws/lib/other.ts', {moduleName: 'other'})];
+        expect(rank(modules, {boundNames: new Set(['utils'])})).toEqual(['/ws/lib/other.ts', '/ws/src/server/utils.ts']);
+    });
+});
@@ -0,0 +1,47 @@
+import {describe, expect, it} from 'vitest';
+import {ModuleSearchIndex} from '../module_search_index';
+
+function makeIndex(moduleNames: ReadonlyArray<string>): ModuleSearchIndex<{moduleName: string; tsFilePath: string}> {
+    const index = new ModuleSearchIndex<{moduleName: string; tsFilePath: string}>();
+    for (const moduleName of moduleNames) {
+        index.add({moduleName, tsFilePath: `/ws/src/${moduleName}.ts`});
+    }
+    return index;
+}
+
+function searchNames(index: ModuleSearchIndex<{moduleName: string}>, query: string, limit = 10): Array<string> {
+    return index.search(query, limit).matches.map(({entry}) => entry.moduleName);
+}
+
+describe('ModuleSearchIndex', () => {
+    it('finds names by prefix, camel humps and subsequence, in that order', () => {
+        const index = makeIndex(['fooBarRepository', 'fbrLegacy', 'fooBar', 'fabricator', 'barFoo']);
+        expect(searchNames(index, 'fooB')).toEqual(['fooBar', 'fooBarRepository']);
+        expect(searchNames(index, 'fooBR')).toEqual(['fooBarRepository', 'fooBar']);
+        expect(searchNames(index, 'fbr')).toEqual(['fbrLegacy', 'fooBarRepository', 'fooBar', 'fabricator']);
+    });
+
+    it('matches snake_case words and later words, ignoring case', () => {
+        const index = makeIndex(['user_account_service', 'userAccount', 'accessor']);
+        expect(searchNames(index, 'UAS')).toEqual(['user_account_service']);
+        expect(searchNames(index, 'acc')).toEqual(['accessor', 'userAccount', 'user_account_service']);
+    });
+
+    it('ranks shorter names first among matches of the same kind', () => {
+        expect(searchNames(makeIndex(['utilsHelpers', 'utils', 'utilsX']), 'ut')).toEqual(['utils', 'utilsX', 'utilsHelpers']);
+    });
+
+    it('reports whether matches were left out', () => {
+        const index = makeIndex(['a1', 'a2', 'a3']);
+        expect(index.search('a', 2)).toMatchObject({isIncomplete: true});
+        expect(index.search('a', 3)).toMatchObject({isIncomplete: false});
+    });
+
+    it('forgets removed entries', () => {
+        const index = makeIndex(['fooBar', 'fooBaz']);
+        index.remove('fooBar', () => true);
+        index.removeWhere(({tsFilePath}) => tsFilePath.endsWith('fooBaz.ts'));
+        expect(searchNames(index, 'foo')).toEqual([]);
+        expect(index.size).toBe(0);
+    });
+});
@@ -0,0 +1,33 @@
+import {describe, expect, it} from 'vitest';
+import * as documentImports from '../document_imports';
+import * as namespaceConversion from '../namespace_conversion';
+import {applyTextEdits, makeTextDocument} from './test_helpers';
+
+function convert(text: string, namespaceName: string): string {
+    const imports = documentImports.parseDocumentImports(makeTextDocument(text));
+    const [convertibleImport] = namespaceConversion.findConvertibleImports(imports);
+    const result = namespaceConversion.makeNamespaceConversionEdits(imports, convertibleImport, namespaceName);
+    if (!result.ok) throw new Error(result.err);
+    return applyTextEdits(text, result.value);
+}
+
+describe('makeNamespaceConversionEdits', () => {
+    it('rewrites named and default bindings into members of the namespace', () => {
+        expect(convert("import b, {a, c as d} from './foo_bar';\na(b, d);\nconst x = {a};\n", 'fooBar')).toBe(
+            "import * as fooBar from './foo_bar';\nfooBar.a(fooBar.default, fooBar.c);\nconst x = {a: fooBar.a};\n",
+        );
+    });
+
+    it('leaves local variables that shadow an imported name alone', () => {
+        expect(convert("import {a} from './foo_bar';\na();\nfunction f(a: number) { return a; }\n", 'fooBar')).toBe(
+            "import * as fooBar from './foo_bar';\nfooBar.a();\nfunction f(a: number) { return a; }\n",
+        );
+    });
+
+    it('refuses imports whose names are re-exported', () => {
+        const text = "import {a} from './foo_bar';\nexport {a};\n";
+        const imports = documentImports.parseDocumentImports(makeTextDocument(text));
+        const [convertibleImport] = namespaceConversion.findConvertibleImports(imports);
+        expect(namespaceConversion.makeNamespaceConversionEdits(imports, convertibleImport, 'fooBar').ok).toBe(false);
+    });
+});
@@ -0,0 +1,86 @@
+import {describe, expect, it} from 'vitest';
+import * as pathMappings from '../path_mappings';
+import {TsConfigJson} from '../namespace_import_service';
+import {ImportPathExtStyle} from '../uri_helpers';
+import {makeTsConfigJson} from './test_helpers';
+
+const tsProjectPath = '/ws/tsconfig.json';
+const indexFileNames = ['index.ts'];
+
+function makeBareImportPath(
+    tsConfigJson: TsConfigJson,
+    tsFilePath: string,
+    tsFilePaths: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle = 'none',
+): string | null {
+    return pathMappings.makeBareImportPath(tsProjectPath, tsConfigJson, tsFilePath, new Set(tsFilePaths), indexFileNames, importPathExtStyle);
+}
+
+describe('makeBareImportPath', () => {
+    const tsConfigJson = makeTsConfigJson({baseUrl: '/ws', paths: {'@app/*': ['src/*', 'generated/*']}});
+
+    it('maps files through `paths` in the extension style', () => {
+        expect(makeBareImportPath(tsConfigJson, '/ws/src/ui/button.ts', ['/ws/src/ui/button.ts'])).toBe('@app/ui/button');
+        expect(makeBareImportPath(tsConfigJson, '/ws/src/ui/button.ts', ['/ws/src/ui/button.ts'], 'js')).toBe('@app/ui/button.js');
+        expect(makeBareImportPath(tsConfigJson, '/ws/src/ui/index.ts', ['/ws/src/ui/index.ts'])).toBe('@app/ui');
+    });
+
+    it('maps files of a fallback mapping, unless an earlier mapping has the same path', () => {
+        expect(makeBareImportPath(tsConfigJson, '/ws/generated/foo.ts', ['/ws/generated/foo.ts'])).toBe('@app/foo');
+        // '@app/foo' resolves to src/foo.ts now, and so does the baseUrl path 'src/foo'
+        expect(makeBareImportPath(tsConfigJson, '/ws/generated/foo.ts', ['/ws/generated/foo.ts', '/ws/src/foo.ts'])).toBe('generated/foo');
+    });
+
+    it('falls back to the path relative to baseUrl', () => {
+        expect(makeBareImportPath(tsConfigJson, '/ws/lib/date.ts', ['/ws/lib/date.ts'])).toBe('lib/date');
+    });
+
+    it('resolves `paths` relative to the tsconfig without a baseUrl', () => {
+        const withoutBaseUrl = makeTsConfigJson({paths: {'~/*': ['./src/*']}});
+        expect(makeBareImportPath(withoutBaseUrl, '/ws/src/date.ts', ['/ws/src/date.ts'])).toBe('~/date');
+        expect(makeBareImportPath(withoutBaseUrl, '/ws/lib/date.ts', ['/ws/lib/date.ts'])).toBeNull();
+    });
+
+    it('only returns paths that resolve back to the module', () => {
+        const tsFilePaths = ['/ws/src/a.ts', '/ws/src/b/index.ts', '/ws/generated/c.ts'];
+        for (const tsFilePath of tsFilePaths) {
+            const importPath = makeBareImportPath(tsConfigJson, tsFilePath, tsFilePaths) ?? '';
+            expect(pathMappings.resolveImportPath(importPath, '/ws/src/current.ts', tsProjectPath, tsConfigJson, path => tsFilePaths.includes(path)))
+                .toBe(tsFilePath);
+        }
+    });
+});
+
+describe('listBareImportPathCandidates', () => {
+    const tsConfigJson = makeTsConfigJson({baseUrl: '/ws', paths: {'@app/*': ['src/*', 'generated/*']}});
+    const listCandidates = (tsFilePath: string) =>
+        pathMappings.listBareImportPathCandidates(tsProjectPath, tsConfigJson, tsFilePath, indexFileNames, 'none');
+
+    it('shares a path between the files that can take it from each other', () => {
+        // Adding or removing src/foo.ts decides whether '@app/foo' is generated/foo.ts's path
+        expect(listCandidates('/ws/generated/foo.ts')).toContain('@app/foo');
+        expect(listCandidates('/ws/src/foo.ts')).toContain('@app/foo');
+        expect(listCandidates('/ws/src/foo/index.ts')).toContain('@app/foo');
+        expect(listCandidates('/ws/src/bar.ts')).not.toContain('@app/foo');
+    });
+
+    it('includes the path relative to baseUrl', () => {
+        expect(listCandidates('/ws/lib/date.ts')).toEqual(['lib/date']);
+    });
+});
+
+describe('makeRootDirsImportPath', () => {
+    it('imports across rootDirs as if they were one directory', () => {
+        const tsConfigJson = makeTsConfigJson({rootDirs: ['/ws/src', '/ws/generated']});
+        const tsFilePaths = ['/ws/src/views/main.ts', '/ws/generated/views/template.ts'];
+        expect(pathMappings.makeRootDirsImportPath(
+            tsProjectPath,
+            tsConfigJson,
+            '/ws/src/views/main.ts',
+            '/ws/generated/views/template.ts',
+            new Set(tsFilePaths),
+            indexFileNames,
+            'none',
+        )).toBe('./template');
+    });
+});
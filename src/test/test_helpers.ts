@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import {TsConfigJson} from '../namespace_import_service';
+
+/**
+ * Makes a document over `text` with the parts of `vscode.TextDocument` that the tested modules use.
+ */
+export function makeTextDocument(text: string, fileName = '/ws/src/current.ts', languageId = 'typescript'): vscode.TextDocument {
+    const lines = text.split('\n');
+    const positionAt = (offset: number) => {
+        const linesBefore = text.slice(0, offset).split('\n');
+        return new vscode.Position(linesBefore.length - 1, linesBefore[linesBefore.length - 1].length);
+    };
+    const offsetAt = (position: vscode.Position) =>
+        lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+    const document = {
+        uri: vscode.Uri.file(fileName),
+        fileName,
+        languageId,
+        lineCount: lines.length,
+        getText: (range?: vscode.Range) => range === undefined ? text : text.slice(offsetAt(range.start), offsetAt(range.end)),
+        lineAt: (line: number) => ({
+            text: lines[line],
+            isEmptyOrWhitespace: lines[line].trim() === '',
+            range: new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, lines[line].length)),
+        }),
+        positionAt,
+        offsetAt,
+    };
+    return document as unknown as vscode.TextDocument;
+}
+
+/**
+ * Applies `edits`, which mustn't overlap, to `text`.
+ */
+export function applyTextEdits(text: string, edits: ReadonlyArray<vscode.TextEdit>): string {
+    const doc = makeTextDocument(text);
+    const sortedEdits = [...edits].sort((a, b) => doc.offsetAt(b.range.start) - doc.offsetAt(a.range.start));
+    for (const edit of sortedEdits) {
+        text = text.slice(0, doc.offsetAt(edit.range.start)) + edit.newText + text.slice(doc.offsetAt(edit.range.end));
+    }
+    return text;
+}
+
+export function makeTsConfigJson(overrides: Partial<TsConfigJson> = {}): TsConfigJson {
+    return {
+        baseUrl: null,
+        paths: null,
+        outDir: null,
+        rootDir: null,
+        rootDirs: null,
+        allowJs: false,
+        module: null,
+        moduleResolution: null,
+        allowImportingTsExtensions: false,
+        rewriteRelativeImportExtensions: false,
+        verbatimModuleSyntax: false,
+        isolatedModules: false,
+        target: null,
+        lib: null,
+        types: null,
+        files: null,
+        include: null,
+        exclude: null,
+        references: [],
+        ...overrides,
+    };
+}
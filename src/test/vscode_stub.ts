@@ -0,0 +1,79 @@
+/**
+ * Stands in for the `vscode` module in unit tests, with just enough of the API for the modules
+ * that don't need a running VS Code. See vitest.config.mjs.
+ */
+import * as pathUtil from 'path';
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+
+    isBefore(other: Position): boolean {
+        return this.line < other.line || (this.line === other.line && this.character < other.character);
+    }
+}
+
+export class Range {
+    constructor(readonly start: Position, readonly end: Position) {}
+
+    intersection(other: Range): Range | undefined {
+        const start = this.start.isBefore(other.start) ? other.start : this.start;
+        const end = this.end.isBefore(other.end) ? this.end : other.end;
+        return end.isBefore(start) ? undefined : new Range(start, end);
+    }
+}
+
+export class TextEdit {
+    constructor(readonly range: Range, readonly newText: string) {}
+
+    static insert(position: Position, newText: string): TextEdit {
+        return new TextEdit(new Range(position, position), newText);
+    }
+
+    static replace(range: Range, newText: string): TextEdit {
+        return new TextEdit(range, newText);
+    }
+
+    static delete(range: Range): TextEdit {
+        return new TextEdit(range, '');
+    }
+}
+
+export class Uri {
+    private constructor(readonly scheme: string, readonly path: string) {}
+
+    static file(path: string): Uri {
+        return new Uri('file', path);
+    }
+
+    static joinPath(uri: Uri, ...pathSegments: Array<string>): Uri {
+        return uri.with({path: pathUtil.posix.join(uri.path, ...pathSegments)});
+    }
+
+    get fsPath(): string {
+        return this.path;
+    }
+
+    with({path}: {path?: string}): Uri {
+        return new Uri(this.scheme, path ?? this.path);
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.path}`;
+    }
+}
+
+export class RelativePattern {
+    constructor(readonly base: unknown, readonly pattern: string) {}
+}
+
+export enum CompletionItemKind {
+    Method, Function, Constructor, Field, Variable, Class, Interface, Module, Property, Unit, Value, Enum,
+    Keyword, Snippet, Color, File, Reference, Folder, EnumMember, Constant, Struct, Event, Operator,
+    TypeParameter,
+}
+
+export class CompletionItem {
+    constructor(readonly label: unknown, readonly kind?: CompletionItemKind) {}
+}
+
+export const workspace = {};
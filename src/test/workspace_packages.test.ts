@@ -0,0 +1,56 @@
+import {describe, expect, it} from 'vitest';
+import * as workspacePackages from '../workspace_packages';
+import {WorkspacePackage} from '../workspace_packages';
+import {ImportPathExtStyle} from '../uri_helpers';
+
+function makeWorkspacePackage(overrides: Partial<WorkspacePackage> = {}): WorkspacePackage {
+    return {
+        name: '@acme/billing',
+        dirPath: '/ws/packages/billing',
+        exports: null,
+        entryPaths: [],
+        outDirMappings: [],
+        ...overrides,
+    };
+}
+
+describe('makePackageImportPath', () => {
+    it('imports only what `exports` exports, by its subpath', () => {
+        const workspacePackage = makeWorkspacePackage({
+            exports: {'.': './src/index.ts', './invoice': {types: './src/invoice.ts', default: './src/invoice.js'}},
+        });
+        const makePackageImportPath = (tsFilePath: string) =>
+            workspacePackages.makePackageImportPath(workspacePackage, tsFilePath, ['index.ts'], 'none');
+        expect(makePackageImportPath('/ws/packages/billing/src/index.ts')).toBe('@acme/billing');
+        expect(makePackageImportPath('/ws/packages/billing/src/invoice.ts')).toBe('@acme/billing/invoice');
+        expect(makePackageImportPath('/ws/packages/billing/src/internal.ts')).toBeNull();
+    });
+
+    it('maps the build output that `exports` patterns point at back to the sources', () => {
+        const workspacePackage = makeWorkspacePackage({
+            exports: {'./*': './dist/*.js', './internal/*': null},
+            outDirMappings: [{outDirPath: '/ws/packages/billing/dist', sourceDirPaths: ['/ws/packages/billing/src']}],
+        });
+        const makePackageImportPath = (tsFilePath: string) =>
+            workspacePackages.makePackageImportPath(workspacePackage, tsFilePath, ['index.ts'], 'none');
+        expect(makePackageImportPath('/ws/packages/billing/src/tax/rates.ts')).toBe('@acme/billing/tax/rates');
+        expect(makePackageImportPath('/ws/packages/billing/src/internal/ledger.ts')).toBeNull();
+    });
+
+    it('ends paths through extensionless `exports` patterns in the extension style', () => {
+        const workspacePackage = makeWorkspacePackage({exports: {'./*': './src/*'}});
+        const makePackageImportPath = (tsFilePath: string, importPathExtStyle: ImportPathExtStyle) =>
+            workspacePackages.makePackageImportPath(workspacePackage, tsFilePath, ['index.ts'], importPathExtStyle);
+        expect(makePackageImportPath('/ws/packages/billing/src/foo.ts', 'none')).toBe('@acme/billing/foo');
+        expect(makePackageImportPath('/ws/packages/billing/src/foo.ts', 'js')).toBe('@acme/billing/foo.js');
+        expect(makePackageImportPath('/ws/packages/billing/src/ui/index.ts', 'none')).toBe('@acme/billing/ui/index');
+    });
+
+    it('imports entry points by the package name and other files by their path without `exports`', () => {
+        const workspacePackage = makeWorkspacePackage({entryPaths: ['/ws/packages/billing/src/main.ts']});
+        expect(workspacePackages.makePackageImportPath(workspacePackage, '/ws/packages/billing/src/main.ts', ['index.ts'], 'js'))
+            .toBe('@acme/billing');
+        expect(workspacePackages.makePackageImportPath(workspacePackage, '/ws/packages/billing/src/tax.ts', ['index.ts'], 'js'))
+            .toBe('@acme/billing/src/tax.js');
+    });
+});
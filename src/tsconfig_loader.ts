@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as pathUtil from 'path';
+import * as ts from 'typescript';
+import * as _ from 'lodash';
+import {q, Result} from './u';
+import {TsConfigJson} from './namespace_import_service';
+
+export type LoadedTsConfigJson = {
+    tsConfigJson: TsConfigJson;
+    // The tsconfig itself followed by every file it extends, directly or transitively
+    configFilePaths: Array<string>;
+};
+
+/**
+ * The options we care about, with every path already made absolute relative to the config file
+ * that declared it. Everything but `references` is inherited through `extends`.
+ */
+type ResolvedConfig = {
+    baseUrl?: string;
+    paths?: {mappings: Record<string, Array<string>>; pathsBasePath: string};
+    outDir?: string;
+    rootDir?: string;
+    rootDirs?: Array<string>;
+    allowJs?: boolean;
+    module?: string;
+    moduleResolution?: string;
+    allowImportingTsExtensions?: boolean;
+    rewriteRelativeImportExtensions?: boolean;
+    verbatimModuleSyntax?: boolean;
+    isolatedModules?: boolean;
+    target?: string;
+    lib?: Array<string>;
+    types?: Array<string>;
+    files?: Array<string>;
+    include?: Array<string>;
+    exclude?: Array<string>;
+    references?: Array<string>;
+};
+
+/**
+ * Loads the tsconfig at `tsConfigUri` and merges in everything it `extends`, following
+ * TypeScript's rules: bases are applied in order, later ones overriding earlier ones, and the
+ * extending file overriding all of them.
+ */
+export async function loadTsConfigJsonAsync(tsConfigUri: vscode.Uri): Promise<Result<LoadedTsConfigJson, string>> {
+    const configFilePaths: Array<string> = [];
+    const result = await loadConfigAsync(tsConfigUri, configFilePaths, []);
+    if (!result.ok) return result;
+    const config = result.value;
+
+    const baseUrl = config.baseUrl ?? null;
+    let paths: Record<string, Array<string>> | null = null;
+    if (config.paths !== undefined) {
+        const {mappings, pathsBasePath} = config.paths;
+        // Without a baseUrl, mappings are relative to the config that declared them. Making them
+        // absolute keeps them correct no matter which project directory they're resolved from.
+        paths = baseUrl !== null
+            ? mappings
+            : _.mapValues(mappings, targets => targets.map(target => pathUtil.resolve(pathsBasePath, target)));
+    }
+
+    return Result.ok({
+        tsConfigJson: {
+            baseUrl,
+            paths,
+            outDir: config.outDir ?? null,
+            rootDir: config.rootDir ?? null,
+            rootDirs: config.rootDirs ?? null,
+            // jsconfig.json is a tsconfig.json with allowJs on by default
+            allowJs: config.allowJs ?? pathUtil.basename(tsConfigUri.path).startsWith('jsconfig'),
+            module: config.module ?? null,
+            moduleResolution: config.moduleResolution ?? null,
+            allowImportingTsExtensions: config.allowImportingTsExtensions ?? false,
+            rewriteRelativeImportExtensions: config.rewriteRelativeImportExtensions ?? false,
+            verbatimModuleSyntax: config.verbatimModuleSyntax ?? false,
+            isolatedModules: config.isolatedModules ?? false,
+            target: config.target ?? null,
+            lib: config.lib ?? null,
+            types: config.types ?? null,
+            files: config.files ?? null,
+            include: config.include ?? null,
+            exclude: config.exclude ?? null,
+            references: config.references ?? [],
+        },
+        configFilePaths,
+    });
+}
+
+async function loadConfigAsync(
+    configUri: vscode.Uri,
+    configFilePaths: Array<string>,
+    extendingConfigPaths: ReadonlyArray<string>,
+): Promise<Result<ResolvedConfig, string>> {
+    if (extendingConfigPaths.includes(configUri.path)) {
+        return Result.err(`Circular "extends" in ${q(configUri.path)}`);
+    }
+    if (!configFilePaths.includes(configUri.path)) {
+        configFilePaths.push(configUri.path);
+    }
+
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(configUri)).toString('utf8');
+    } catch (error) {
+        return Result.err(`Error reading tsconfig at ${configUri.path}: ${error}`);
+    }
+    const parseResults = ts.parseConfigFileTextToJson(configUri.path, text);
+    const configObj: Record<string, unknown> = _.isPlainObject(parseResults.config) ? parseResults.config : {};
+    const configDirPath = pathUtil.dirname(configUri.path);
+
+    let config: ResolvedConfig = {};
+
+    const extendsValue = configObj['extends'];
+    const extendsSpecifiers = typeof extendsValue === 'string' ? [extendsValue]
+        : Array.isArray(extendsValue) ? extendsValue.filter((x): x is string => typeof x === 'string')
+        : [];
+    for (const specifier of extendsSpecifiers) {
+        const baseUri = await resolveExtendsAsync(configUri, specifier);
+        if (baseUri === null) {
+            console.warn(`Failed to resolve "extends": ${q(specifier)} in ${q(configUri.path)}`);
+            continue;
+        }
+        const baseResult = await loadConfigAsync(baseUri, configFilePaths, [...extendingConfigPaths, configUri.path]);
+        if (!baseResult.ok) {
+            console.warn(baseResult.err);
+            continue;
+        }
+        config = {...config, ...baseResult.value};
+    }
+    delete config.references;
+
+    const rawCompilerOptions = configObj['compilerOptions'];
+    if (_.isPlainObject(rawCompilerOptions)) {
+        const {
+            baseUrl,
+            paths,
+            outDir,
+            rootDir,
+            rootDirs,
+            allowJs,
+            module,
+            moduleResolution,
+            allowImportingTsExtensions,
+            rewriteRelativeImportExtensions,
+            verbatimModuleSyntax,
+            isolatedModules,
+            target,
+            lib,
+            types,
+        } = rawCompilerOptions as Record<string, unknown>;
+        if (typeof baseUrl === 'string') {
+            config.baseUrl = pathUtil.resolve(configDirPath, baseUrl);
+        }
+        if (_.isPlainObject(paths)) {
+            config.paths = {
+                mappings: paths as Record<string, Array<string>>,
+                pathsBasePath: configDirPath,
+            };
+        }
+        if (typeof outDir === 'string') {
+            config.outDir = pathUtil.resolve(configDirPath, outDir);
+        }
+        if (typeof rootDir === 'string') {
+            config.rootDir = pathUtil.resolve(configDirPath, rootDir);
+        }
+        if (Array.isArray(rootDirs)) {
+            config.rootDirs = rootDirs
+                .filter((x): x is string => typeof x === 'string')
+                .map(rootDir => pathUtil.resolve(configDirPath, rootDir));
+        }
+        if (typeof allowJs === 'boolean') {
+            config.allowJs = allowJs;
+        }
+        // Option values are case-insensitive
+        if (typeof module === 'string') {
+            config.module = module.toLowerCase();
+        }
+        if (typeof moduleResolution === 'string') {
+            config.moduleResolution = moduleResolution.toLowerCase();
+        }
+        if (typeof allowImportingTsExtensions === 'boolean') {
+            config.allowImportingTsExtensions = allowImportingTsExtensions;
+        }
+        if (typeof rewriteRelativeImportExtensions === 'boolean') {
+            config.rewriteRelativeImportExtensions = rewriteRelativeImportExtensions;
+        }
+        if (typeof verbatimModuleSyntax === 'boolean') {
+            config.verbatimModuleSyntax = verbatimModuleSyntax;
+        }
+        if (typeof isolatedModules === 'boolean') {
+            config.isolatedModules = isolatedModules;
+        }
+        if (typeof target === 'string') {
+            config.target = target.toLowerCase();
+        }
+        if (Array.isArray(lib)) {
+            config.lib = lib.filter((x): x is string => typeof x === 'string').map(x => x.toLowerCase());
+        }
+        // Type packages are looked up from the project, whichever config names them
+        if (Array.isArray(types)) {
+            config.types = types.filter((x): x is string => typeof x === 'string');
+        }
+    }
+
+    for (const key of ['files', 'include', 'exclude'] as const) {
+        const value = configObj[key];
+        if (Array.isArray(value)) {
+            config[key] = value
+                .filter((x): x is string => typeof x === 'string')
+                .map(pattern => pathUtil.resolve(configDirPath, pattern));
+        }
+    }
+
+    const references = configObj['references'];
+    if (Array.isArray(references)) {
+        config.references = [];
+        for (const reference of references) {
+            if (!_.isPlainObject(reference) || typeof reference['path'] !== 'string') continue;
+            // A reference can point at a directory, meaning the tsconfig.json inside of it
+            const referencePath = pathUtil.resolve(configDirPath, reference['path']);
+            config.references.push(
+                referencePath.endsWith('.json') ? referencePath : pathUtil.join(referencePath, 'tsconfig.json'),
+            );
+        }
+    }
+
+    return Result.ok(config);
+}
+
+/**
+ * Resolves an `extends` specifier the way TypeScript does: paths are relative to the extending
+ * config, anything else is looked up in node_modules.
+ */
+async function resolveExtendsAsync(configUri: vscode.Uri, specifier: string): Promise<vscode.Uri | null> {
+    const configDirPath = pathUtil.dirname(configUri.path);
+
+    if (specifier.startsWith('.') || pathUtil.isAbsolute(specifier)) {
+        const path = pathUtil.resolve(configDirPath, specifier);
+        const candidates = path.endsWith('.json') ? [path] : [path, `${path}.json`];
+        return findExistingFileAsync(configUri, candidates);
+    }
+
+    for (let dirPath = configDirPath; ; dirPath = pathUtil.dirname(dirPath)) {
+        const packagePath = pathUtil.join(dirPath, 'node_modules', specifier);
+        const candidates = [packagePath, `${packagePath}.json`, pathUtil.join(packagePath, 'tsconfig.json')];
+
+        // A package can point at its tsconfig through the "tsconfig" field of its package.json
+        const packageJsonUri = configUri.with({path: pathUtil.join(packagePath, 'package.json')});
+        try {
+            const packageJson = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(packageJsonUri)).toString('utf8'));
+            if (typeof packageJson['tsconfig'] === 'string') {
+                candidates.unshift(pathUtil.join(packagePath, packageJson['tsconfig']));
+            }
+        } catch {
+            // Not a package with a package.json
+        }
+
+        const found = await findExistingFileAsync(configUri, candidates);
+        if (found !== null) return found;
+
+        if (dirPath === pathUtil.dirname(dirPath)) return null;
+    }
+}
+
+async function findExistingFileAsync(baseUri: vscode.Uri, paths: Array<string>): Promise<vscode.Uri | null> {
+    for (const path of paths) {
+        const uri = baseUri.with({path});
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.File) return uri;
+        } catch {
+            // Doesn't exist
+        }
+    }
+    return null;
+}
@@ -1,4 +1,5 @@
 import * as pathUtil from 'path';
+import * as _ from 'lodash';
 
 export type Result<OkT, ErrT> = ResultOk<OkT> | ResultErr<ErrT>;
 export const Result = {
@@ -88,6 +89,50 @@ export function pathWithoutExt(path: string): string {
     return path.slice(0, path.length - pathUtil.extname(path).length);
 }
 
+/**
+ * Splits `value` at the first `separator`, which it must contain.
+ */
+export function splitAtFirst(value: string, separator: string): [string, string] {
+    const index = value.indexOf(separator);
+    return [value.slice(0, index), value.slice(index + separator.length)];
+}
+
+/**
+ * Converts a glob (`*`, `**`, `?`, `{a,b}`) into a RegExp that matches whole '/'-separated paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // '**/' matches zero or more directories, a trailing '**' matches anything
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += _.escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
 // eslint-disable-next-line @typescript-eslint/no-namespace
 export namespace iter {
     export function filter<T>(it: Iterable<T>, predicateFn: (value: T) => boolean): Array<T> {
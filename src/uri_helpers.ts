@@ -2,22 +2,38 @@ import * as vscode from 'vscode';
 import * as pathUtil from 'path';
 import * as _ from 'lodash';
 import * as u from './u';
-import {TsConfigJson, TsProject, TsProjectPath} from './namespace_import_service';
+import * as moduleNaming from './module_naming';
+import * as projectMembership from './project_membership';
+import * as pathMappings from './path_mappings';
+import {IndexConfig, TsConfigJson, TsFilePath, TsProject, TsProjectPath} from './namespace_import_service';
+import * as workspacePackages from './workspace_packages';
+import {ModuleExport, ModuleExportKind} from './module_exports';
+import {WorkspacePackage} from './workspace_packages';
 
 export function findOwnerTsProjectForTsFile(
     uri: vscode.Uri,
-    tsProjectPaths: Iterable<TsProjectPath>,
+    tsProjectByPath: ReadonlyMap<TsProjectPath, TsProject>,
 ): TsProjectPath | null {
-    // Find all projects that could contain this file
-    const candidates = u.iter.filter(tsProjectPaths, tsProjectPath => uri.path.startsWith(tsProjectPath));
+    // Find all projects that contain this file according to their `files`, `include` and `exclude`
+    const candidates = u.iter.filter(
+        tsProjectByPath.entries(),
+        ([_tsProjectPath, tsProject]) => projectMembership.isProjectFile(tsProject.fileMatcher, uri.path),
+    ).map(([tsProjectPath]) => tsProjectPath);
     if (candidates.length === 0) return null;
 
-    // Return the project with the deepest (most specific) root path
-    return u.max(candidates, u.cmp.transform(path => path.length, u.cmp.number));
+    // Return the project with the deepest (most specific) root path, preferring the default
+    // tsconfig.json or jsconfig.json over variants like tsconfig.test.json in the same directory
+    return u.max(candidates, u.cmp.transform(
+        path => pathUtil.dirname(path).length * 2 + (defaultTsConfigFileNames.includes(pathUtil.basename(path)) ? 1 : 0),
+        u.cmp.number,
+    ));
 }
 
-type ModuleEvaluationForTsProject =
-    | {type: 'bareImport'; moduleName: string; importPath: string}
+const defaultTsConfigFileNames = ['tsconfig.json', 'jsconfig.json'];
+
+export type ModuleEvaluationForTsProject =
+    // Whether the module may also be imported by a relative path, which other packages may not
+    | {type: 'bareImport'; moduleName: string; importPath: string; allowsRelativeImport: boolean}
     | {type: 'relativeImport'; moduleName: string}
     | {type: 'importDisallowed'};
 
@@ -29,19 +45,44 @@ export function evaluateModuleForTsProject(
     tsProjectPath: TsProjectPath,
     tsProject: TsProject,
     moduleUri: vscode.Uri,
+    indexConfig: IndexConfig,
+    packages: ReadonlyArray<WorkspacePackage>,
+    tsFilePaths: ReadonlySet<TsFilePath>,
 ): ModuleEvaluationForTsProject {
-    const moduleName = makeModuleName(moduleUri);
+    const moduleName = makeModuleName(moduleUri, tsProject.workspaceFolder, indexConfig);
+
+    // Other packages of a monorepo are imported by their package name, and only what they export
+    const modulePackage = workspacePackages.findWorkspacePackage(packages, moduleUri.path);
+    if (modulePackage !== null && modulePackage !== workspacePackages.findWorkspacePackage(packages, tsProjectPath)) {
+        const packageImportPath = workspacePackages.makePackageImportPath(
+            modulePackage,
+            moduleUri.path,
+            indexConfig.indexFileNames,
+            getBareImportPathExtStyle(tsProject.tsConfigJson, indexConfig),
+        );
+        if (packageImportPath === null) return {type: 'importDisallowed'};
+        return {type: 'bareImport', moduleName, importPath: packageImportPath, allowsRelativeImport: false};
+    }
 
-    const bareImportPath = makeBareImportPath(tsProjectPath, tsProject, moduleUri);
-    if (bareImportPath !== null) {
+    // Like tsc, only files of this project and of the projects it references are reachable
+    const isReachable = projectMembership.isProjectFile(tsProject.fileMatcher, moduleUri.path)
+        || tsProject.referencedFileMatchers.some(fileMatcher => projectMembership.isProjectFile(fileMatcher, moduleUri.path));
+
+    // A path mapping makes a module importable even if it's outside of the project, unless the
+    // project deliberately excludes it (e.g. test-only modules)
+    const isExcludedFromOwnDir = !isReachable && moduleUri.path.startsWith(pathUtil.dirname(tsProjectPath) + '/');
+
+    const bareImportPath = getBareImportPath(tsProjectPath, tsProject, moduleUri.path, indexConfig, tsFilePaths);
+    if (bareImportPath !== null && !isExcludedFromOwnDir) {
         return {
             type: 'bareImport',
             moduleName,
             importPath: bareImportPath,
+            allowsRelativeImport: isReachable,
         };
     }
 
-    if (moduleUri.path.startsWith(tsProjectPath)) {
+    if (isReachable) {
         return {
             type: 'relativeImport',
             moduleName,
@@ -51,102 +92,341 @@ export function evaluateModuleForTsProject(
     return {type: 'importDisallowed'};
 }
 
-export function makeCompletionItem(
+/**
+ * Returns the import path that the project's `paths` or `baseUrl` give the module at `tsFilePath`,
+ * computed once per file and project.
+ */
+function getBareImportPath(
+    tsProjectPath: TsProjectPath,
+    tsProject: TsProject,
+    tsFilePath: TsFilePath,
+    indexConfig: IndexConfig,
+    tsFilePaths: ReadonlySet<TsFilePath>,
+): string | null {
+    const {tsConfigJson} = tsProject;
+    // Nothing to resolve, so nothing worth keeping either
+    if (tsConfigJson.baseUrl === null && tsConfigJson.paths === null) return null;
+
+    return u.map.getOrCreate(tsProject.bareImportPathByTsFilePath, tsFilePath, () => pathMappings.makeBareImportPath(
+        tsProjectPath,
+        tsConfigJson,
+        tsFilePath,
+        tsFilePaths,
+        indexConfig.indexFileNames,
+        getBareImportPathExtStyle(tsConfigJson, indexConfig),
+    ));
+}
+
+export type CompletionItemParams = {
+    moduleName: string;
+    // The identifier actually inserted, which differs from `moduleName` when that name is taken
+    alias: string;
+    importPath: string;
+    importEdit: vscode.TextEdit;
+    sortText: string;
+    preselect: boolean;
+    command: vscode.Command;
+};
+
+export function makeCompletionItem({
+    moduleName,
+    alias,
+    importPath,
+    importEdit,
+    sortText,
+    preselect,
+    command,
+}: CompletionItemParams): vscode.CompletionItem {
+    const completionItem = new vscode.CompletionItem(
+        {
+            label: alias,
+            detail: ` ${importPath}`,
+            description: 'namespace import',
+        },
+        vscode.CompletionItemKind.Module,
+    );
+    completionItem.filterText = moduleName;
+    completionItem.sortText = sortText;
+    completionItem.preselect = preselect;
+    completionItem.additionalTextEdits = [importEdit];
+    completionItem.command = command;
+    return completionItem;
+}
+
+/**
+ * Returns `moduleName` if it's free, otherwise prefixes it with the module's parent directory
+ * names (`server/utils.ts` becomes `serverUtils`) until it no longer collides with `boundNames`.
+ */
+export function makeCollisionFreeModuleName(
     moduleName: string,
-    importStatement: string,
+    tsFilePath: TsFilePath,
+    boundNames: ReadonlySet<string>,
+): string {
+    if (!boundNames.has(moduleName)) return moduleName;
+
+    const dirNames = pathUtil.dirname(tsFilePath).split('/').filter(dirName => dirName !== '');
+    let prefix = '';
+    for (let i = dirNames.length - 1; i >= 0; i--) {
+        prefix = dirNames[i] + ' ' + prefix;
+        const camelCandidate = _.camelCase(prefix) + _.upperFirst(moduleName);
+        // Keep PascalCase names PascalCase
+        const candidate = moduleName === _.upperFirst(moduleName) ? _.upperFirst(camelCandidate) : camelCandidate;
+        if (!boundNames.has(candidate)) {
+            return candidate;
+        }
+    }
+
+    for (let i = 2; ; i++) {
+        const candidate = `${moduleName}${i}`;
+        if (!boundNames.has(candidate)) {
+            return candidate;
+        }
+    }
+}
+
+export type MemberCompletionItemParams = {
+    moduleExport: ModuleExport;
+    importPath: string;
+    importEdit: vscode.TextEdit;
+    command: vscode.Command;
+};
+
+/**
+ * Makes a completion item for an export of a module that isn't imported yet, which adds the
+ * namespace import when accepted.
+ */
+export function makeMemberCompletionItem({
+    moduleExport,
+    importPath,
+    importEdit,
+    command,
+}: MemberCompletionItemParams): vscode.CompletionItem {
+    const completionItem = new vscode.CompletionItem(
+        {
+            label: moduleExport.name,
+            description: importPath,
+        },
+        completionItemKindByModuleExportKind[moduleExport.kind],
+    );
+    completionItem.detail = moduleExport.signature;
+    completionItem.additionalTextEdits = [importEdit];
+    completionItem.command = command;
+    return completionItem;
+}
+
+const completionItemKindByModuleExportKind: Record<ModuleExportKind, vscode.CompletionItemKind> = {
+    function: vscode.CompletionItemKind.Function,
+    class: vscode.CompletionItemKind.Class,
+    interface: vscode.CompletionItemKind.Interface,
+    type: vscode.CompletionItemKind.TypeParameter,
+    enum: vscode.CompletionItemKind.Enum,
+    namespace: vscode.CompletionItemKind.Module,
+    const: vscode.CompletionItemKind.Constant,
+    variable: vscode.CompletionItemKind.Variable,
+    reexport: vscode.CompletionItemKind.Reference,
+};
+
+/**
+ * Makes a completion item for a module that the document already imports under `alias`, which
+ * completes to the alias instead of adding a second import.
+ */
+export function makeExistingAliasCompletionItem(
+    moduleName: string,
+    alias: string,
 ): vscode.CompletionItem {
     const completionItem = new vscode.CompletionItem(
         {
             label: moduleName,
-            description: 'namespace import',
+            description: `imported as ${alias}`,
         },
         vscode.CompletionItemKind.Module,
     );
-    completionItem.additionalTextEdits = [
-        vscode.TextEdit.insert(new vscode.Position(0, 0), importStatement),
-    ];
+    completionItem.insertText = alias;
+    completionItem.filterText = moduleName;
     return completionItem;
 }
 
-function makeModuleName(uri: vscode.Uri): string {
-    const fileName = pathUtil.basename(uri.path, uri.path.endsWith('ts') ? '.ts' : '.tsx');
-    return _.camelCase(fileName);
+export function makeModuleName(
+    uri: vscode.Uri,
+    workspaceFolder: vscode.WorkspaceFolder,
+    {namingConfig, indexFileNames}: IndexConfig,
+): string {
+    // Index files are named after the directory they make importable
+    const fileName = isIndexFile(uri.path, indexFileNames)
+        ? pathUtil.basename(pathUtil.dirname(uri.path))
+        : pathUtil.basename(uri.path, getModuleFileExt(uri.path));
+    const workspaceRelativePath = pathUtil.relative(workspaceFolder.uri.path, uri.path);
+    return moduleNaming.applyNamingConfig(fileName, workspaceRelativePath, namingConfig);
 }
 
-function makeBareImportPath(
-    tsProjectPath: TsProjectPath,
-    tsProject: TsProject,
-    moduleUri: vscode.Uri,
-): string | null {
-    const matchedPath = matchPathPatternForProject(tsProjectPath, tsProject, moduleUri);
-    if (matchedPath !== null) {
-        return u.pathWithoutExt(matchedPath);
-    }
+// Longest first, so that e.g. '.d.ts' is matched before '.ts'
+const moduleFileExts = ['.d.mts', '.d.cts', '.d.ts', '.mts', '.cts', '.tsx', '.ts', '.mjs', '.cjs', '.jsx', '.js'];
+const jsModuleFileExts = ['.mjs', '.cjs', '.jsx', '.js'];
 
-    if (tsProject.tsConfigJson.baseUrl !== null) {
-        const baseUrlPath = pathUtil.resolve(tsProjectPath, tsProject.tsConfigJson.baseUrl);
-        if (moduleUri.path.startsWith(baseUrlPath)) {
-            const moduleRelativePath = pathUtil.relative(baseUrlPath, moduleUri.path);
+export function isModuleFile(path: string): boolean {
+    return getModuleFileExt(path) !== '';
+}
 
-            if (!doesImportPathViaBaseUrlConflictWithPathsMapping(moduleRelativePath, tsProject.tsConfigJson)) {
-                return u.pathWithoutExt(moduleRelativePath);
-            }
-        }
-    }
+export function isJsModuleFile(path: string): boolean {
+    return jsModuleFileExts.includes(getModuleFileExt(path));
+}
 
-    return null;
+/**
+ * Returns the full module extension of `path` (e.g. '.d.ts' rather than '.ts'), or '' if it isn't
+ * a TypeScript or JavaScript module.
+ */
+export function getModuleFileExt(path: string): string {
+    return moduleFileExts.find(ext => path.endsWith(ext)) ?? '';
 }
 
-function matchPathPatternForProject(
-    tsProjectPath: TsProjectPath,
-    tsProject: TsProject,
-    moduleUri: vscode.Uri,
-): string | null {
-    if (!tsProject.tsConfigJson.paths) return null;
+export function pathWithoutModuleFileExt(path: string): string {
+    return path.slice(0, path.length - getModuleFileExt(path).length);
+}
 
-    const workspaceFolderPath = tsProject.workspaceFolder.uri.path;
-    const moduleRelativePath = pathUtil.relative(workspaceFolderPath, moduleUri.path);
+/**
+ * How import paths end:
+ * - 'none': no extension, for bundlers and classic node resolution
+ * - 'js': the extension of the emitted JavaScript file, as node16/nodenext resolution requires
+ * - 'ts': the source file's own extension, with allowImportingTsExtensions, or for relative paths
+ *   with rewriteRelativeImportExtensions
+ */
+export type ImportPathExtStyle = 'none' | 'js' | 'ts';
 
-    const baseUrl = tsProject.tsConfigJson.baseUrl ?? ".";
-    const basePath = pathUtil.resolve(tsProjectPath, baseUrl);
+export function getImportPathExtStyle(tsConfigJson: TsConfigJson, indexConfig: IndexConfig): ImportPathExtStyle {
+    if (indexConfig.importPathExtension !== 'auto') return indexConfig.importPathExtension;
+    if (tsConfigJson.rewriteRelativeImportExtensions) return 'ts';
+    return getBareImportPathExtStyle(tsConfigJson, indexConfig);
+}
 
-    for (const [pattern, mappings] of Object.entries(tsProject.tsConfigJson.paths)) {
-        for (const mapping of mappings) {
-            const resolvedMapping = pathUtil.resolve(basePath, mapping);
-            const workspaceRelativeMapping = pathUtil.relative(workspaceFolderPath, resolvedMapping);
+/**
+ * Like `getImportPathExtStyle`, but for non-relative paths through `paths`, `baseUrl` or a package
+ * name, which rewriteRelativeImportExtensions doesn't rewrite, so they need the emitted extension.
+ */
+export function getBareImportPathExtStyle(tsConfigJson: TsConfigJson, indexConfig: IndexConfig): ImportPathExtStyle {
+    if (indexConfig.importPathExtension !== 'auto') return indexConfig.importPathExtension;
 
-            if (pattern.includes('*')) {
-                // Handle wildcard: "src/*" matches "src/components/Button"
-                const patternPrefix = pattern.replace('*', '');
-                const mappingPrefix = workspaceRelativeMapping.replace('*', '');
+    if (tsConfigJson.allowImportingTsExtensions) return 'ts';
 
-                if (moduleRelativePath.startsWith(mappingPrefix)) {
-                    const suffix = moduleRelativePath.slice(mappingPrefix.length);
-                    return patternPrefix + suffix;
-                }
-            } else if (moduleRelativePath === workspaceRelativeMapping) {
-                return pattern;
-            }
-        }
+    // `module` implies the module resolution when it isn't set explicitly
+    const moduleResolution = tsConfigJson.moduleResolution ?? tsConfigJson.module;
+    if (moduleResolution !== null && nodeEsmModuleResolutions.includes(moduleResolution)) return 'js';
+
+    return 'none';
+}
+const nodeEsmModuleResolutions = ['node16', 'node18', 'node20', 'nodenext'];
+
+// The extension that the file emitted for each source extension has
+const jsExtByModuleFileExt: Record<string, string> = {
+    '.d.mts': '.mjs',
+    '.d.cts': '.cjs',
+    '.d.ts': '.js',
+    '.mts': '.mjs',
+    '.cts': '.cjs',
+    '.tsx': '.js',
+    '.ts': '.js',
+};
+
+/**
+ * Which of the import paths of a module that has both to use, like TypeScript's
+ * `importModuleSpecifierPreference`:
+ * - 'relative': the relative path
+ * - 'non-relative': the path through `paths`, `baseUrl` or the package name
+ * - 'project-relative': the relative path for modules of the current file's own project
+ * - 'shortest': whichever has fewer path segments, preferring the non-relative one on a tie
+ */
+export type ImportModuleSpecifierPreference = 'relative' | 'non-relative' | 'project-relative' | 'shortest';
+
+export function chooseImportPath(
+    preference: ImportModuleSpecifierPreference,
+    bareImportPath: string,
+    relativeImportPath: string,
+    isSameProject: boolean,
+): string {
+    switch (preference) {
+        case 'relative': return relativeImportPath;
+        case 'non-relative': return bareImportPath;
+        case 'project-relative': return isSameProject ? relativeImportPath : bareImportPath;
+        case 'shortest': return countPathSegments(relativeImportPath) < countPathSegments(bareImportPath)
+            ? relativeImportPath
+            : bareImportPath;
+        default: throw u.impossible(preference);
     }
+}
 
-    return null;
+// Counts like TypeScript does, so './foo' has one segment and '../foo' two
+function countPathSegments(importPath: string): number {
+    return importPath.replace(/^\.\//, '').split('/').length;
 }
 
-function doesImportPathViaBaseUrlConflictWithPathsMapping(
-    moduleRelativePath: string,
-    tsConfigJson: TsConfigJson,
-): boolean {
-    if (tsConfigJson.paths === null) return false;
+export function makeRelativeImportPath(
+    fromDirPath: string,
+    tsFilePath: TsFilePath,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): string {
+    let importPathWithExt = pathUtil.relative(fromDirPath, tsFilePath);
+    if (!importPathWithExt.startsWith('..')) {
+        importPathWithExt = './' + importPathWithExt;
+    }
+    return toImportPath(importPathWithExt, indexFileNames, importPathExtStyle);
+}
 
-    // Make sure this doesn't conflict with `paths`
-    for (let pattern of Object.keys(tsConfigJson.paths)) {
-        if (pattern.includes('*')) {
-            pattern = pattern.replace('*', '');
-        }
-        if (moduleRelativePath.startsWith(pattern)) {
+export function isIndexFile(path: string, indexFileNames: ReadonlyArray<string>): boolean {
+    return indexFileNames.includes(pathUtil.basename(path));
+}
+
+/**
+ * Returns whether the module at `tsFilePath` sits inside a directory with an index file that
+ * `currentFilePath` is outside of, meaning it should be imported through that barrel instead.
+ */
+export function isHiddenBehindBarrel(
+    tsFilePath: TsFilePath,
+    currentFilePath: TsFilePath,
+    barrelDirPaths: ReadonlySet<string>,
+    indexFileNames: ReadonlyArray<string>,
+): boolean {
+    // A barrel is the public entry point of its own directory, so only its parent directories count
+    let dirPath = pathUtil.dirname(tsFilePath);
+    if (isIndexFile(tsFilePath, indexFileNames)) {
+        dirPath = pathUtil.dirname(dirPath);
+    }
+    for (; dirPath !== pathUtil.dirname(dirPath); dirPath = pathUtil.dirname(dirPath)) {
+        if (barrelDirPaths.has(dirPath) && !currentFilePath.startsWith(dirPath + '/')) {
             return true;
         }
     }
     return false;
 }
+
+/**
+ * Turns the path of a module file into an import path in the given extension style. Without
+ * extensions, index files are imported through their directory.
+ */
+export function toImportPath(
+    pathWithExt: string,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): string {
+    const moduleFileExt = getModuleFileExt(pathWithExt);
+    // Without a module file extension there's nothing to strip or replace
+    if (moduleFileExt === '') return pathWithExt;
+
+    switch (importPathExtStyle) {
+        case 'none': {
+            if (isIndexFile(pathWithExt, indexFileNames)) {
+                const dirPath = pathUtil.dirname(pathWithExt);
+                // A bare 'index.ts' at the baseUrl root has no directory to import
+                if (dirPath !== '.' || pathWithExt.startsWith('./')) {
+                    return dirPath;
+                }
+            }
+            return pathWithoutModuleFileExt(pathWithExt);
+        }
+        case 'js': return pathWithoutModuleFileExt(pathWithExt) + (jsExtByModuleFileExt[moduleFileExt] ?? moduleFileExt);
+        // Declaration files have no source to import, only the JavaScript they describe
+        case 'ts': return moduleFileExt.startsWith('.d.')
+            ? pathWithoutModuleFileExt(pathWithExt) + jsExtByModuleFileExt[moduleFileExt]
+            : pathWithExt;
+        default: throw u.impossible(importPathExtStyle);
+    }
+}
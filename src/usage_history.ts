@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import * as _ from 'lodash';
+import {TsFilePath} from './namespace_import_service';
+
+/**
+ * Remembers which modules the user imported through completions, and how recently, so the ones
+ * they reach for can be ranked first. Persisted in the extension's workspace storage.
+ */
+export type UsageHistory = {
+    get: (tsFilePath: TsFilePath) => ModuleUsage | null;
+    recordAsync: (tsFilePath: TsFilePath) => Promise<void>;
+};
+
+export type ModuleUsage = {
+    count: number;
+    lastUsedMs: number;
+};
+
+const storageKey = 'typescriptNamespaceImports.usageHistory';
+// Enough to cover everything a user imports regularly, while keeping the stored state small
+const maxEntries = 500;
+
+export const UsageHistory = {
+    make: (memento: vscode.Memento): UsageHistory => {
+        return new UsageHistoryImpl(memento);
+    },
+};
+
+class UsageHistoryImpl implements UsageHistory {
+    private usageByTsFilePath: Map<TsFilePath, ModuleUsage>;
+
+    constructor(private memento: vscode.Memento) {
+        this.usageByTsFilePath = parseStoredUsages(memento.get<unknown>(storageKey));
+    }
+
+    get = (tsFilePath: TsFilePath): ModuleUsage | null => {
+        return this.usageByTsFilePath.get(tsFilePath) ?? null;
+    };
+
+    recordAsync = async (tsFilePath: TsFilePath): Promise<void> => {
+        const usage = this.usageByTsFilePath.get(tsFilePath);
+        this.usageByTsFilePath.set(tsFilePath, {count: (usage?.count ?? 0) + 1, lastUsedMs: Date.now()});
+
+        if (this.usageByTsFilePath.size > maxEntries) {
+            // Forget the least recently used modules
+            const byRecency = _.sortBy(Array.from(this.usageByTsFilePath), ([, {lastUsedMs}]) => -lastUsedMs);
+            this.usageByTsFilePath = new Map(byRecency.slice(0, maxEntries));
+        }
+
+        await this.memento.update(storageKey, Object.fromEntries(this.usageByTsFilePath));
+    };
+}
+
+function parseStoredUsages(value: unknown): Map<TsFilePath, ModuleUsage> {
+    const usageByTsFilePath = new Map<TsFilePath, ModuleUsage>();
+    if (!_.isPlainObject(value)) return usageByTsFilePath;
+
+    for (const [tsFilePath, usage] of Object.entries(value as Record<string, unknown>)) {
+        if (_.isPlainObject(usage)) {
+            const {count, lastUsedMs} = usage as Record<string, unknown>;
+            if (typeof count === 'number' && typeof lastUsedMs === 'number') {
+                usageByTsFilePath.set(tsFilePath, {count, lastUsedMs});
+            }
+        }
+    }
+    return usageByTsFilePath;
+}
@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import * as pathUtil from 'path';
+import * as _ from 'lodash';
+import * as u from './u';
+import * as uriHelpers from './uri_helpers';
+import {ImportPathExtStyle} from './uri_helpers';
+import {TsFilePath} from './namespace_import_service';
+
+/**
+ * A package of an npm, yarn or pnpm workspace, which other packages import by its name.
+ */
+export type WorkspacePackage = {
+    name: string;
+    dirPath: string;
+    // The `exports` field of its package.json, which when present is the only way into the package
+    exports: unknown;
+    // The files `main`, `module`, `types` and `typings` point at, for packages without `exports`
+    entryPaths: Array<string>;
+    // Where the package's tsconfigs emit to and their sources are, to map built entry points back
+    // to the modules they're built from
+    outDirMappings: Array<{outDirPath: string; sourceDirPaths: Array<string>}>;
+};
+
+/**
+ * Finds the packages that the workspace's root package.json `workspaces` or pnpm-workspace.yaml
+ * `packages` globs match.
+ */
+export async function discoverWorkspacePackagesAsync(workspaceFolder: vscode.WorkspaceFolder): Promise<Array<WorkspacePackage>> {
+    const globs = [
+        ...await readPackageJsonWorkspacesAsync(workspaceFolder),
+        ...await readPnpmWorkspacePackagesAsync(workspaceFolder),
+    ];
+    const includeGlobs = globs.filter(glob => !glob.startsWith('!')).map(trimGlob);
+    const excludeRegExps = globs.filter(glob => glob.startsWith('!')).map(glob => u.globToRegExp(trimGlob(glob.slice(1))));
+    if (includeGlobs.length === 0) return [];
+
+    let packageJsonUris: Array<vscode.Uri>;
+    try {
+        packageJsonUris = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceFolder, `{${includeGlobs.join(',')}}/package.json`),
+            '**/node_modules/**',
+        );
+    } catch (error) {
+        console.warn(`Failed finding workspace packages: ${error}`);
+        return [];
+    }
+
+    const workspacePackages: Array<WorkspacePackage> = [];
+    for (const packageJsonUri of packageJsonUris) {
+        const dirPath = pathUtil.dirname(packageJsonUri.path);
+        const workspaceRelativeDirPath = pathUtil.relative(workspaceFolder.uri.path, dirPath);
+        if (excludeRegExps.some(regExp => regExp.test(workspaceRelativeDirPath))) continue;
+
+        const packageJson = await readJsonObjectAsync(packageJsonUri);
+        if (packageJson === null || typeof packageJson['name'] !== 'string') continue;
+        workspacePackages.push({
+            name: packageJson['name'],
+            dirPath,
+            exports: packageJson['exports'] ?? null,
+            entryPaths: ['main', 'module', 'types', 'typings'].flatMap(key => {
+                const entry = packageJson[key];
+                return typeof entry === 'string' ? [pathUtil.resolve(dirPath, entry)] : [];
+            }),
+            outDirMappings: [],
+        });
+    }
+    return workspacePackages;
+}
+
+/**
+ * Returns the innermost package that `path` is inside of.
+ */
+export function findWorkspacePackage(
+    workspacePackages: ReadonlyArray<WorkspacePackage>,
+    path: string,
+): WorkspacePackage | null {
+    const containing = workspacePackages.filter(({dirPath}) => path.startsWith(dirPath + '/'));
+    if (containing.length === 0) return null;
+    return u.max(containing, u.cmp.transform(({dirPath}) => dirPath.length, u.cmp.number));
+}
+
+/**
+ * Returns the path other packages import the module at `tsFilePath` by, like
+ * '@acme/billing/invoice', or null if the package's `exports` keep it private.
+ */
+export function makePackageImportPath(
+    workspacePackage: WorkspacePackage,
+    tsFilePath: TsFilePath,
+    indexFileNames: ReadonlyArray<string>,
+    importPathExtStyle: ImportPathExtStyle,
+): string | null {
+    const {name, exports} = workspacePackage;
+
+    if (exports !== null) {
+        const subpath = matchExports(workspacePackage, tsFilePath, importPathExtStyle);
+        if (subpath === null) return null;
+        return subpath === '.' ? name : name + subpath.slice(1);
+    }
+
+    // Without `exports`, the entry points import as the package itself and everything else by its
+    // path inside of the package
+    if (workspacePackage.entryPaths.some(entryPath => isBuiltFrom(workspacePackage, entryPath, tsFilePath))) {
+        return name;
+    }
+    const packageRelativePath = pathUtil.relative(workspacePackage.dirPath, tsFilePath);
+    return `${name}/${uriHelpers.toImportPath(packageRelativePath, indexFileNames, importPathExtStyle)}`;
+}
+
+/**
+ * Returns the `exports` subpath, like './invoice', whose target is `tsFilePath` or is built from it.
+ */
+function matchExports(
+    workspacePackage: WorkspacePackage,
+    tsFilePath: TsFilePath,
+    importPathExtStyle: ImportPathExtStyle,
+): string | null {
+    const targetBySubpath = normalizeExports(workspacePackage.exports);
+    // A null target hides the subpaths it matches, even from broader patterns
+    const hiddenSubpaths = Object.keys(targetBySubpath).filter(subpath => targetBySubpath[subpath] === null);
+
+    for (const [subpath, target] of Object.entries(targetBySubpath)) {
+        for (const targetPath of collectTargetPaths(target)) {
+            const absoluteTargetPath = pathUtil.resolve(workspacePackage.dirPath, targetPath);
+            const matchedSubpath = subpath.includes('*')
+                ? matchExportsPattern(workspacePackage, subpath, absoluteTargetPath, tsFilePath, importPathExtStyle)
+                : isBuiltFrom(workspacePackage, absoluteTargetPath, tsFilePath) ? subpath : null;
+            if (matchedSubpath !== null && !hiddenSubpaths.some(hidden => matchesSubpath(hidden, matchedSubpath))) {
+                return matchedSubpath;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Matches a pattern like `"./*": "./dist/*.js"` against the module, returning the subpath with the
+ * `*` filled in. For a target like `"./src/*"`, the `*` ends in the extension the project imports
+ * with.
+ */
+function matchExportsPattern(
+    workspacePackage: WorkspacePackage,
+    subpath: string,
+    absoluteTargetPath: string,
+    tsFilePath: TsFilePath,
+    importPathExtStyle: ImportPathExtStyle,
+): string | null {
+    if (!absoluteTargetPath.includes('*')) return null;
+    const tsFilePathWithoutExt = uriHelpers.pathWithoutModuleFileExt(tsFilePath);
+
+    for (const sourcePath of sourcePathsOf(workspacePackage, absoluteTargetPath)) {
+        const [prefix, suffix] = u.splitAtFirst(sourcePath, '*');
+        // A target without an extension after the `*` needs the import path to have one
+        const isExtensionless = suffix === '';
+        const suffixWithoutExt = uriHelpers.pathWithoutModuleFileExt(suffix);
+        const path = isExtensionless ? tsFilePath : tsFilePathWithoutExt;
+        if (path.startsWith(prefix) && path.endsWith(suffixWithoutExt) && path.length >= prefix.length + suffixWithoutExt.length) {
+            const star = path.slice(prefix.length, path.length - suffixWithoutExt.length);
+            // `exports` map paths as they are, so index files aren't imported through their directory
+            return subpath.replace('*', isExtensionless ? uriHelpers.toImportPath(star, [], importPathExtStyle) : star);
+        }
+    }
+    return null;
+}
+
+/**
+ * Turns the forms `exports` can take (a string, an object of conditions, or an object of subpaths)
+ * into an object of subpaths.
+ */
+function normalizeExports(exports: unknown): Record<string, unknown> {
+    if (!_.isPlainObject(exports)) return {'.': exports};
+    const keys = Object.keys(exports as Record<string, unknown>);
+    if (keys.length > 0 && keys.every(key => key.startsWith('.'))) return exports as Record<string, unknown>;
+    return {'.': exports};
+}
+
+/**
+ * Collects the paths of a target, in order, from every condition and fallback it has.
+ */
+function collectTargetPaths(target: unknown): Array<string> {
+    if (typeof target === 'string') return [target];
+    if (Array.isArray(target)) return target.flatMap(collectTargetPaths);
+    if (_.isPlainObject(target)) return Object.values(target as Record<string, unknown>).flatMap(collectTargetPaths);
+    return [];
+}
+
+function matchesSubpath(pattern: string, subpath: string): boolean {
+    if (!pattern.includes('*')) return pattern === subpath;
+    const [prefix, suffix] = u.splitAtFirst(pattern, '*');
+    return subpath.startsWith(prefix) && subpath.endsWith(suffix);
+}
+
+/**
+ * Returns whether the package file at `path` is the module at `tsFilePath`, or is built from it.
+ */
+function isBuiltFrom(workspacePackage: WorkspacePackage, path: string, tsFilePath: TsFilePath): boolean {
+    const tsFilePathWithoutExt = uriHelpers.pathWithoutModuleFileExt(tsFilePath);
+    return sourcePathsOf(workspacePackage, path).some(sourcePath =>
+        uriHelpers.pathWithoutModuleFileExt(sourcePath) === tsFilePathWithoutExt,
+    );
+}
+
+/**
+ * Returns `path` along with where it would be built from, if it's inside of an outDir.
+ */
+function sourcePathsOf(workspacePackage: WorkspacePackage, path: string): Array<string> {
+    const sourcePaths = [path];
+    for (const {outDirPath, sourceDirPaths} of workspacePackage.outDirMappings) {
+        if (path.startsWith(outDirPath + '/')) {
+            const outDirRelativePath = pathUtil.relative(outDirPath, path);
+            sourcePaths.push(...sourceDirPaths.map(sourceDirPath => pathUtil.join(sourceDirPath, outDirRelativePath)));
+        }
+    }
+    return sourcePaths;
+}
+
+function trimGlob(glob: string): string {
+    return glob.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+async function readPackageJsonWorkspacesAsync(workspaceFolder: vscode.WorkspaceFolder): Promise<Array<string>> {
+    const packageJson = await readJsonObjectAsync(vscode.Uri.joinPath(workspaceFolder.uri, 'package.json'));
+    if (packageJson === null) return [];
+
+    // Yarn also allows `"workspaces": {"packages": [...]}`
+    const workspaces = packageJson['workspaces'];
+    const globs = _.isPlainObject(workspaces) ? (workspaces as Record<string, unknown>)['packages'] : workspaces;
+    return Array.isArray(globs) ? globs.filter((glob): glob is string => typeof glob === 'string') : [];
+}
+
+/**
+ * Reads the `packages` list of pnpm-workspace.yaml, which is the only part of it we need, so a
+ * YAML parser would be overkill.
+ */
+async function readPnpmWorkspacePackagesAsync(workspaceFolder: vscode.WorkspaceFolder): Promise<Array<string>> {
+    let text: string;
+    try {
+        const uri = vscode.Uri.joinPath(workspaceFolder.uri, 'pnpm-workspace.yaml');
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+        return [];
+    }
+
+    const globs: Array<string> = [];
+    let isInPackages = false;
+    for (const line of text.split(/\r?\n/)) {
+        if (/^packages\s*:/.test(line)) {
+            isInPackages = true;
+            continue;
+        }
+        // Any other top-level key ends the list
+        if (/^\S/.test(line)) {
+            isInPackages = false;
+        }
+        const item = isInPackages ? /^\s+-\s*(['"]?)(.+?)\1\s*(#.*)?$/.exec(line) : null;
+        if (item !== null) {
+            globs.push(item[2]);
+        }
+    }
+    return globs;
+}
+
+export async function readJsonObjectAsync(uri: vscode.Uri): Promise<Record<string, unknown> | null> {
+    try {
+        const json = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+        return _.isPlainObject(json) ? json : null;
+    } catch {
+        return null;
+    }
+}
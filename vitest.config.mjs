@@ -0,0 +1,12 @@
+import {fileURLToPath} from 'url';
+import {defineConfig} from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        // The tested modules only need the parts of the API that src/test/vscode_stub.ts provides
+        alias: {vscode: fileURLToPath(new URL('./src/test/vscode_stub.ts', import.meta.url))},
+    },
+    test: {
+        include: ['src/test/**/*.test.ts'],
+    },
+});